@@ -0,0 +1,158 @@
+import Parser, { SyntaxNode } from 'tree-sitter';
+import { NodeWrapper, Bindings } from './types';
+import { PatternError } from './errors';
+
+// `$NAME` binds a single node, `$$$NAME` binds a (possibly empty) node sequence.
+// Names starting with an underscore (`$_`, `$$$_REST`) match without binding.
+const SINGLE_METAVARIABLE = /^\$([A-Z_][A-Z0-9_]*)$/;
+const MULTI_METAVARIABLE = /^\$\$\$([A-Z_][A-Z0-9_]*)?$/;
+
+type Metavariable = { name: string; multi: boolean };
+
+/**
+ * A code-shaped pattern such as `console.log($MSG)`. The snippet is parsed with
+ * the same grammar as the tree being searched and unified structurally against
+ * its nodes, ignoring whitespace, comments and optional semicolons.
+ */
+export class CodePattern {
+  private root: SyntaxNode;
+
+  constructor(
+    public readonly source: string,
+    language: unknown
+  ) {
+    const parser = new Parser();
+    parser.setLanguage(language);
+    const program = parser.parse(source).rootNode;
+
+    if (program.hasError) {
+      throw new PatternError(`Could not parse code pattern '${source}'`, source);
+    }
+
+    const statements = this.significantChildren(program).filter(child => child.isNamed);
+    if (statements.length !== 1) {
+      throw new PatternError(
+        'Code pattern must be a single statement or expression, e.g. `console.log($MSG)`',
+        source
+      );
+    }
+
+    this.root = statements[0];
+
+    // A lone expression without a trailing semicolon matches the expression itself
+    if (this.root.type === 'expression_statement' && !source.trim().endsWith(';')) {
+      this.root = this.root.firstNamedChild ?? this.root;
+    }
+  }
+
+  /**
+   * Match the pattern against a single node, returning its metavariable bindings
+   * or null if the node does not have the pattern's shape.
+   */
+  match(node: NodeWrapper): Bindings | null {
+    return this.matchNode(this.root, node, {});
+  }
+
+  private matchNode(pattern: SyntaxNode, target: NodeWrapper, bindings: Bindings): Bindings | null {
+    const metavariable = this.metavariable(pattern);
+    if (metavariable && !metavariable.multi) {
+      return this.bind(metavariable.name, target, bindings);
+    }
+
+    if (pattern.type !== target.type) return null;
+
+    const patternChildren = this.significantChildren(pattern);
+    if (patternChildren.length === 0) {
+      return pattern.text === target.text ? bindings : null;
+    }
+
+    return this.matchSequence(patternChildren, this.significantTargets(target), 0, 0, bindings);
+  }
+
+  private matchSequence(
+    patterns: SyntaxNode[],
+    targets: NodeWrapper[],
+    patternIndex: number,
+    targetIndex: number,
+    bindings: Bindings
+  ): Bindings | null {
+    if (patternIndex === patterns.length) {
+      return targetIndex === targets.length ? bindings : null;
+    }
+
+    const pattern = patterns[patternIndex];
+    const metavariable = this.metavariable(pattern);
+
+    if (metavariable?.multi) {
+      // Try every possible run length, shortest first, and backtrack on failure
+      for (let end = targetIndex; end <= targets.length; end++) {
+        const run = targets.slice(targetIndex, end).filter(node => node.node.isNamed);
+        const bound = this.bind(metavariable.name, run, bindings);
+        if (!bound) continue;
+
+        const result = this.matchSequence(patterns, targets, patternIndex + 1, end, bound);
+        if (result) return result;
+      }
+      return null;
+    }
+
+    if (targetIndex >= targets.length) return null;
+
+    const matched = this.matchNode(pattern, targets[targetIndex], bindings);
+    if (!matched) return null;
+
+    return this.matchSequence(patterns, targets, patternIndex + 1, targetIndex + 1, matched);
+  }
+
+  /**
+   * Bind a metavariable, returning a new bindings object. A metavariable that is
+   * already bound only matches code identical to its first binding.
+   */
+  private bind(
+    name: string,
+    value: NodeWrapper | NodeWrapper[],
+    bindings: Bindings
+  ): Bindings | null {
+    if (name.startsWith('_')) return bindings;
+
+    const existing = bindings[name];
+    if (existing) {
+      return this.sameCode(existing, value) ? bindings : null;
+    }
+
+    return { ...bindings, [name]: value };
+  }
+
+  private sameCode(a: NodeWrapper | NodeWrapper[], b: NodeWrapper | NodeWrapper[]): boolean {
+    const textOf = (value: NodeWrapper | NodeWrapper[]) =>
+      Array.isArray(value) ? value.map(node => node.text) : [value.text];
+
+    const left = textOf(a);
+    const right = textOf(b);
+    return left.length === right.length && left.every((text, i) => text === right[i]);
+  }
+
+  private metavariable(node: SyntaxNode): Metavariable | null {
+    // `$$$BODY;` in a block stands for statements, not for an expression statement
+    const text =
+      node.type === 'expression_statement' && node.firstNamedChild
+        ? node.firstNamedChild.text
+        : node.text;
+    const multi = MULTI_METAVARIABLE.exec(text);
+    if (multi) return { name: multi[1] ?? '_', multi: true };
+
+    const single = SINGLE_METAVARIABLE.exec(text);
+    if (single) return { name: single[1], multi: false };
+
+    return null;
+  }
+
+  // Comments and semicolons do not take part in structural comparison
+  private significantChildren(node: SyntaxNode): SyntaxNode[] {
+    return node.children.filter(child => child.type !== 'comment' && child.type !== ';');
+  }
+
+  private significantTargets(node: NodeWrapper): NodeWrapper[] {
+    return node.children.filter(child => child.type !== 'comment' && child.type !== ';');
+  }
+}
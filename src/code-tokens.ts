@@ -0,0 +1,70 @@
+import Parser, { SyntaxNode } from 'tree-sitter';
+
+// String literals, compared by content rather than by quote style
+const STRING_TYPES = new Set(['string']);
+
+// A comma before one of these is a trailing comma: `foo(a, b,)`, `[1, 2,]`, `{ a, }`
+const CLOSING_BRACKETS = new Set([')', ']', '}']);
+
+// Parsers used to tokenize code snippets, one per grammar
+const parsers = new WeakMap<object, Parser>();
+
+/**
+ * The tokens of a node as the grammar sees them, ignoring whitespace, comments,
+ * trailing commas and quote style: `foo( 'a', b, )` and `foo("a", b)` both yield
+ * `foo ( "a" , b )` once joined.
+ */
+export function codeTokens(node: SyntaxNode): string[] {
+  const tokens: string[] = [];
+  collectTokens(node, tokens);
+  return tokens.filter((token, index) => token !== ',' || !CLOSING_BRACKETS.has(tokens[index + 1]));
+}
+
+/**
+ * The tokens of a code snippet, parsed with `language`. Snippets need not be
+ * complete: `await fetch(` yields `await fetch (`.
+ */
+export function snippetTokens(source: string, language: object): string[] {
+  let parser = parsers.get(language);
+  if (!parser) {
+    parser = new Parser();
+    parser.setLanguage(language);
+    parsers.set(language, parser);
+  }
+  return codeTokens(parser.parse(source).rootNode);
+}
+
+/**
+ * The grammar `node` was parsed with
+ */
+export function languageOf(node: SyntaxNode): object {
+  return (node.tree as unknown as { language: object }).language;
+}
+
+function collectTokens(node: SyntaxNode, tokens: string[]): void {
+  if (node.type === 'comment') return;
+
+  if (STRING_TYPES.has(node.type)) {
+    tokens.push(requote(node.text));
+    return;
+  }
+
+  if (node.childCount === 0) {
+    // Zero-width tokens are inserted by error recovery or automatic semicolons
+    if (node.startIndex === node.endIndex) return;
+
+    const text = node.type === 'jsx_text' ? node.text.trim().replace(/\s+/g, ' ') : node.text;
+    if (text) tokens.push(text);
+    return;
+  }
+
+  for (const child of node.children) {
+    collectTokens(child, tokens);
+  }
+}
+
+// `'it\'s'` and `"it's"` both become `"it's"`
+function requote(literal: string): string {
+  const content = literal.slice(1, -1).replace(/\\(['"])/g, '$1');
+  return `"${content.replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,137 @@
+import { SyntaxNode, Tree } from 'tree-sitter';
+
+export interface AttachedComments {
+  leading: SyntaxNode[];
+  trailing: SyntaxNode[];
+}
+
+// Function and class values take the comments of their declaration: `/** doc */ const f = () => {}`
+const DECLARED_VALUE_TYPES = new Set([
+  'function_expression',
+  'generator_function',
+  'arrow_function',
+  'class',
+]);
+
+// Declarations whose leading keywords (`export`, `const`, `declare`) belong to what they declare
+const KEYWORD_DECLARATION_TYPES = new Set([
+  'export_statement',
+  'lexical_declaration',
+  'variable_declaration',
+  'ambient_declaration',
+]);
+
+// Comments attached by node id, computed once per tree on first use
+const attachments = new WeakMap<Tree, Map<number, AttachedComments>>();
+
+/**
+ * The comments belonging to `node`. Leading comments come directly before it,
+ * with no blank line in between; trailing comments follow it on the line it
+ * ends on. Nodes also get the comments of the statements and declarations they
+ * begin or end: in `foo(); // TODO` the call has the trailing `// TODO`, and an
+ * exported function has the comments above its `export` statement.
+ */
+export function commentsOf(node: SyntaxNode): AttachedComments {
+  const attached = attachedComments(node.tree);
+  const comments: AttachedComments = { leading: [], trailing: [] };
+
+  for (let current: SyntaxNode | null = node; current; current = current.parent) {
+    comments.leading.unshift(...(attached.get(current.id)?.leading ?? []));
+    if (!current.parent || !begins(current, current.parent)) break;
+  }
+  for (let current: SyntaxNode | null = node; current; current = current.parent) {
+    comments.trailing.push(...(attached.get(current.id)?.trailing ?? []));
+    if (!current.parent || !ends(current, current.parent)) break;
+  }
+
+  return comments;
+}
+
+function attachedComments(tree: Tree): Map<number, AttachedComments> {
+  let attached = attachments.get(tree);
+  if (attached) return attached;
+
+  attached = new Map();
+  for (const comment of tree.rootNode.descendantsOfType('comment')) {
+    const siblings = comment.parent?.children ?? [];
+    const index = siblings.findIndex(sibling => sibling.id === comment.id);
+    const before = siblings.slice(0, index).reverse();
+    const closing = before.find(sibling => !isComment(sibling));
+    let previous = before.find(isCode);
+    let previousEnd = previous;
+
+    // A comment after a closing token can end up inside the node it closes, as in
+    // `function f() {} // x`. It then follows the outermost node ending there.
+    if (closing && !closing.isNamed && siblings.slice(index + 1).every(isComment)) {
+      previous = comment.parent ?? undefined;
+      while (previous?.parent && lastToken(previous.parent)?.id === previous.id) {
+        previous = previous.parent;
+      }
+      // The node's range includes the comment, so compare with the closing token
+      previousEnd = closing;
+    }
+
+    const nextIndex = siblings.findIndex((sibling, i) => i > index && isCode(sibling));
+
+    let target: SyntaxNode | undefined;
+    let position: keyof AttachedComments = 'leading';
+    if (previous && previousEnd?.endPosition.row === comment.startPosition.row) {
+      target = previous;
+      position = 'trailing';
+    } else if (nextIndex !== -1 && adjacent(siblings.slice(index, nextIndex + 1))) {
+      target = siblings[nextIndex];
+    }
+    if (!target) continue;
+
+    const comments = attached.get(target.id) ?? { leading: [], trailing: [] };
+    comments[position].push(comment);
+    attached.set(target.id, comments);
+  }
+
+  attachments.set(tree, attached);
+  return attached;
+}
+
+function isCode(node: SyntaxNode): boolean {
+  return node.isNamed && !isComment(node);
+}
+
+function isComment(node: SyntaxNode): boolean {
+  return node.type === 'comment';
+}
+
+// No blank line between consecutive nodes
+function adjacent(nodes: SyntaxNode[]): boolean {
+  return nodes.every(
+    (node, i) => i === 0 || node.startPosition.row - nodes[i - 1].endPosition.row <= 1
+  );
+}
+
+// Zero-width tokens, such as automatic semicolons, do not count
+function firstToken(node: SyntaxNode): SyntaxNode | undefined {
+  return node.children.find(isToken);
+}
+
+function lastToken(node: SyntaxNode): SyntaxNode | undefined {
+  return [...node.children].reverse().find(isToken);
+}
+
+function isToken(node: SyntaxNode): boolean {
+  return !isComment(node) && node.startIndex !== node.endIndex;
+}
+
+// In `return foo();` the call does not begin the statement, the `return` keyword does
+function begins(node: SyntaxNode, parent: SyntaxNode): boolean {
+  if (parent.type === 'variable_declarator' && DECLARED_VALUE_TYPES.has(node.type)) {
+    return parent.childForFieldName('value')?.id === node.id;
+  }
+  if (KEYWORD_DECLARATION_TYPES.has(parent.type)) {
+    return parent.namedChildren.find(isCode)?.id === node.id;
+  }
+  return node.isNamed && firstToken(parent)?.id === node.id;
+}
+
+function ends(node: SyntaxNode, parent: SyntaxNode): boolean {
+  const code = parent.namedChildren.filter(isCode);
+  return code[code.length - 1]?.id === node.id;
+}
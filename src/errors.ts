@@ -25,14 +25,27 @@ export class ParseError extends TreeHuggerError {
 export class PatternError extends TreeHuggerError {
   constructor(
     message: string,
-    public pattern: string
+    public pattern: string,
+    public offset?: number,
+    public suggestions: string[] = []
   ) {
-    super(message, 'PATTERN_ERROR', { pattern });
+    super(message, 'PATTERN_ERROR', { pattern, offset, suggestions });
     this.name = 'PatternError';
     Object.setPrototypeOf(this, PatternError.prototype);
   }
 }
 
+export class RegistryError extends TreeHuggerError {
+  constructor(
+    message: string,
+    public entry: string
+  ) {
+    super(message, 'REGISTRY_ERROR', { entry });
+    this.name = 'RegistryError';
+    Object.setPrototypeOf(this, RegistryError.prototype);
+  }
+}
+
 export class TransformError extends TreeHuggerError {
   constructor(
     message: string,
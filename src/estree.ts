@@ -0,0 +1,1507 @@
+import { TreeNode } from './node-wrapper';
+import { positionsOf } from './positions';
+import { ESTreeConversion, ESTreeNode } from './types';
+
+type ESTreeFields = { type: string; [key: string]: unknown };
+
+/**
+ * Builds the ESTree shape of one tree-sitter node type. Returning null marks the
+ * node as unmapped, for types where only some forms have an ESTree equivalent.
+ * Returning an already built node passes it through unchanged.
+ */
+type Converter = (node: TreeNode, estree: ESTreeBuilder) => ESTreeFields | null;
+
+// Parentheses only group, so ESTree leaves them out
+const WRAPPER_TYPES = new Set(['parenthesized_expression', 'parenthesized_type']);
+
+// Links of an optional chain such as `a?.b.c()`
+const CHAIN_TYPES = new Set(['member_expression', 'subscript_expression', 'call_expression']);
+
+const JSX_TAG_TYPES = new Set([
+  'jsx_element',
+  'jsx_self_closing_element',
+  'jsx_opening_element',
+  'jsx_closing_element',
+]);
+
+const LOGICAL_OPERATORS = new Set(['&&', '||', '??']);
+
+// Functions whose body may start with directives such as 'use strict'
+const FUNCTION_TYPES = new Set([
+  'function_declaration',
+  'function_expression',
+  'generator_function_declaration',
+  'generator_function',
+  'arrow_function',
+  'method_definition',
+]);
+
+const KEYWORD_TYPES: Record<string, string> = {
+  any: 'TSAnyKeyword',
+  unknown: 'TSUnknownKeyword',
+  number: 'TSNumberKeyword',
+  string: 'TSStringKeyword',
+  boolean: 'TSBooleanKeyword',
+  bigint: 'TSBigIntKeyword',
+  symbol: 'TSSymbolKeyword',
+  object: 'TSObjectKeyword',
+  never: 'TSNeverKeyword',
+  void: 'TSVoidKeyword',
+  undefined: 'TSUndefinedKeyword',
+  null: 'TSNullKeyword',
+};
+
+// Character references allowed in JSX text beyond numeric ones
+const JSX_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  times: '×',
+};
+
+const identifier: Converter = node => ({ type: 'Identifier', name: node.text });
+
+const CONVERTERS = new Map<string, Converter>(
+  Object.entries({
+    program: (node, c) => ({
+      type: 'Program',
+      sourceType: code(node).some(child => /^(import|export)_statement$/.test(child.type))
+        ? 'module'
+        : 'script',
+      body: c.convertAll(code(node).filter(child => child.type !== 'hash_bang_line')),
+    }),
+
+    // Statements
+    expression_statement: (node, c) => {
+      const [expression] = code(node);
+      // tree-sitter parses `namespace A {}` as an expression
+      if (expression?.type === 'internal_module') return c.convert(expression);
+      return {
+        type: 'ExpressionStatement',
+        expression: c.convert(expression),
+        ...(isDirective(node) ? { directive: expression.text.slice(1, -1) } : {}),
+      };
+    },
+    statement_block: (node, c) => ({ type: 'BlockStatement', body: c.convertAll(code(node)) }),
+    empty_statement: () => ({ type: 'EmptyStatement' }),
+    debugger_statement: () => ({ type: 'DebuggerStatement' }),
+    lexical_declaration: (node, c) => ({
+      type: 'VariableDeclaration',
+      kind: node.field('kind')?.text,
+      declarations: c.convertAll(code(node)),
+    }),
+    variable_declaration: (node, c) => ({
+      type: 'VariableDeclaration',
+      kind: 'var',
+      declarations: c.convertAll(code(node)),
+    }),
+    variable_declarator: (node, c) => {
+      const id = c.annotate(c.convert(node.field('name')), node.field('type'));
+      return {
+        type: 'VariableDeclarator',
+        id,
+        init: c.convert(node.field('value')),
+        ...(hasToken(node, '!') ? { definite: true } : {}),
+      };
+    },
+    if_statement: (node, c) => {
+      const alternative = node.field('alternative');
+      return {
+        type: 'IfStatement',
+        test: c.convert(node.field('condition')),
+        consequent: c.convert(node.field('consequence')),
+        alternate: alternative ? c.convert(code(alternative)[0]) : null,
+      };
+    },
+    for_statement: (node, c) => ({
+      type: 'ForStatement',
+      init: c.clause(node.field('initializer')),
+      test: c.clause(node.field('condition')),
+      update: c.convert(node.field('increment')),
+      body: c.convert(node.field('body')),
+    }),
+    for_in_statement: (node, c) => {
+      const left = node.field('left');
+      const kind = node.field('kind');
+      if (!left) return null;
+      const declarator = () =>
+        c.make({ type: 'VariableDeclarator', id: c.convert(left), init: null }, left);
+      return {
+        type: node.field('operator')?.text === 'of' ? 'ForOfStatement' : 'ForInStatement',
+        left: kind
+          ? c.make(
+              { type: 'VariableDeclaration', kind: kind.text, declarations: [declarator()] },
+              left,
+              kind.startOffset
+            )
+          : c.convert(left),
+        right: c.convert(node.field('right')),
+        body: c.convert(node.field('body')),
+        ...(node.field('operator')?.text === 'of' ? { await: hasToken(node, 'await') } : {}),
+      };
+    },
+    while_statement: (node, c) => ({
+      type: 'WhileStatement',
+      test: c.convert(node.field('condition')),
+      body: c.convert(node.field('body')),
+    }),
+    do_statement: (node, c) => ({
+      type: 'DoWhileStatement',
+      body: c.convert(node.field('body')),
+      test: c.convert(node.field('condition')),
+    }),
+    with_statement: (node, c) => ({
+      type: 'WithStatement',
+      object: c.convert(node.field('object')),
+      body: c.convert(node.field('body')),
+    }),
+    return_statement: (node, c) => ({
+      type: 'ReturnStatement',
+      argument: c.convert(code(node)[0]),
+    }),
+    throw_statement: (node, c) => ({ type: 'ThrowStatement', argument: c.convert(code(node)[0]) }),
+    break_statement: (node, c) => ({
+      type: 'BreakStatement',
+      label: c.convert(node.field('label')),
+    }),
+    continue_statement: (node, c) => ({
+      type: 'ContinueStatement',
+      label: c.convert(node.field('label')),
+    }),
+    labeled_statement: (node, c) => ({
+      type: 'LabeledStatement',
+      label: c.convert(node.field('label')),
+      body: c.convert(node.field('body')),
+    }),
+    try_statement: (node, c) => ({
+      type: 'TryStatement',
+      block: c.convert(node.field('body')),
+      handler: c.convert(node.field('handler')),
+      finalizer: c.convert(node.field('finalizer')?.field('body')),
+    }),
+    catch_clause: (node, c) => ({
+      type: 'CatchClause',
+      param: c.annotate(c.convert(node.field('parameter')), node.field('type')),
+      body: c.convert(node.field('body')),
+    }),
+    switch_statement: (node, c) => ({
+      type: 'SwitchStatement',
+      discriminant: c.convert(node.field('value')),
+      cases: c.convertAll(code(node.field('body'))),
+    }),
+    switch_case: (node, c) => ({
+      type: 'SwitchCase',
+      test: c.convert(node.field('value')),
+      consequent: c.convertAll(node.fields('body')),
+    }),
+    switch_default: (node, c) => ({
+      type: 'SwitchCase',
+      test: null,
+      consequent: c.convertAll(node.fields('body')),
+    }),
+
+    // Functions and classes
+    function_declaration: (node, c) => c.function('FunctionDeclaration', node),
+    generator_function_declaration: (node, c) => c.function('FunctionDeclaration', node),
+    function_expression: (node, c) => c.function('FunctionExpression', node),
+    generator_function: (node, c) => c.function('FunctionExpression', node),
+    function_signature: (node, c) => c.function('TSDeclareFunction', node),
+    arrow_function: (node, c) => {
+      const parameter = node.field('parameter');
+      const body = node.field('body');
+      return {
+        type: 'ArrowFunctionExpression',
+        id: null,
+        params: parameter ? [c.convert(parameter)] : c.params(node.field('parameters')),
+        body: c.convert(body),
+        async: hasToken(node, 'async'),
+        generator: false,
+        expression: body?.type !== 'statement_block',
+        ...c.signature(node),
+      };
+    },
+    required_parameter: (node, c) =>
+      node.parent?.type === 'tuple_type' ? c.tupleMember(node) : c.parameter(node),
+    optional_parameter: (node, c) =>
+      node.parent?.type === 'tuple_type' ? c.tupleMember(node) : c.parameter(node),
+    class_declaration: (node, c) => c.class('ClassDeclaration', node),
+    abstract_class_declaration: (node, c) => c.class('ClassDeclaration', node),
+    class: (node, c) => c.class('ClassExpression', node),
+    class_body: (node, c) => {
+      // Decorators of methods precede them in the class body
+      const body: ESTreeNode[] = [];
+      let decorators: ESTreeNode[] = [];
+      for (const member of code(node)) {
+        const converted = c.convert(member);
+        if (member.type === 'decorator') {
+          decorators.push(converted);
+          continue;
+        }
+        if (decorators.length > 0) {
+          converted.decorators = decorators;
+          c.stretch(converted, decorators[0].range[0], converted.range[1]);
+          decorators = [];
+        }
+        body.push(converted);
+      }
+      return { type: 'ClassBody', body };
+    },
+    class_static_block: (node, c) => ({
+      type: 'StaticBlock',
+      body: c.convertAll(code(node.field('body'))),
+    }),
+    method_definition: (node, c) => {
+      const modifiers = memberModifiers(node);
+      const kind = modifiers.has('get') ? 'get' : modifiers.has('set') ? 'set' : undefined;
+      const value = c.make(
+        {
+          type: 'FunctionExpression',
+          id: null,
+          params: c.params(node.field('parameters')),
+          body: c.convert(node.field('body')),
+          async: modifiers.has('async'),
+          generator: modifiers.has('*'),
+          expression: false,
+          ...c.signature(node),
+        },
+        node,
+        (node.field('type_parameters') ?? node.field('parameters'))?.startOffset
+      );
+      const { key, computed } = c.key(node.field('name'));
+
+      if (node.parent?.type === 'object') {
+        const method = !kind;
+        return {
+          type: 'Property',
+          key,
+          computed,
+          value,
+          kind: kind ?? 'init',
+          method,
+          shorthand: false,
+        };
+      }
+      const isConstructor = !computed && !modifiers.has('static') && key?.name === 'constructor';
+      return {
+        type: 'MethodDefinition',
+        key,
+        computed,
+        value,
+        kind: kind ?? (isConstructor ? 'constructor' : 'method'),
+        static: modifiers.has('static'),
+        ...c.memberFields(node, modifiers),
+      };
+    },
+    method_signature: (node, c) => {
+      const modifiers = memberModifiers(node);
+      const { key, computed } = c.key(node.field('name'));
+      const kind = modifiers.has('get') ? 'get' : modifiers.has('set') ? 'set' : 'method';
+      if (node.parent?.type !== 'class_body') {
+        return {
+          type: 'TSMethodSignature',
+          key,
+          computed,
+          kind,
+          params: c.params(node.field('parameters')),
+          ...c.signature(node),
+          optional: hasToken(node, '?'),
+          readonly: modifiers.has('readonly'),
+          static: modifiers.has('static'),
+        };
+      }
+      // An overload of a class method
+      return {
+        type: 'MethodDefinition',
+        key,
+        computed,
+        value: c.emptyBodyFunction(node),
+        kind: kind === 'method' && key?.name === 'constructor' ? 'constructor' : kind,
+        static: modifiers.has('static'),
+        ...c.memberFields(node, modifiers),
+      };
+    },
+    abstract_method_signature: (node, c) => {
+      const modifiers = memberModifiers(node);
+      const { key, computed } = c.key(node.field('name'));
+      return {
+        type: 'TSAbstractMethodDefinition',
+        key,
+        computed,
+        value: c.emptyBodyFunction(node),
+        kind: modifiers.has('get') ? 'get' : modifiers.has('set') ? 'set' : 'method',
+        static: false,
+        ...c.memberFields(node, modifiers),
+      };
+    },
+    field_definition: (node, c) => c.property(node),
+    public_field_definition: (node, c) => c.property(node),
+    decorator: (node, c) => ({ type: 'Decorator', expression: c.convert(code(node)[0]) }),
+
+    // Modules
+    import_statement: (node, c) => {
+      const clause = code(node).find(child => child.type === 'import_clause');
+      const specifiers = code(clause).flatMap(child => {
+        if (child.type === 'named_imports') return c.convertAll(code(child));
+        if (child.type !== 'identifier') return [c.convert(child)];
+        return [c.make({ type: 'ImportDefaultSpecifier', local: c.convert(child) }, child)];
+      });
+      return {
+        type: 'ImportDeclaration',
+        specifiers,
+        source: c.convert(node.field('source')),
+        ...(hasToken(node, 'type') ? { importKind: 'type' } : {}),
+      };
+    },
+    import_specifier: (node, c) => {
+      const name = node.field('name');
+      return {
+        type: 'ImportSpecifier',
+        imported: c.convert(name),
+        local: c.convert(node.field('alias') ?? name),
+      };
+    },
+    namespace_import: (node, c) => ({
+      type: 'ImportNamespaceSpecifier',
+      local: c.convert(code(node)[0]),
+    }),
+    export_statement: (node, c) => {
+      const declaration = node.field('declaration');
+      const source = c.convert(node.field('source'));
+
+      if (hasToken(node, 'default')) {
+        const exported = c.convert(declaration ?? node.field('value'));
+        // `export default function () {}` declares a function without a name
+        if (exported?.type === 'FunctionExpression') exported.type = 'FunctionDeclaration';
+        if (exported?.type === 'ClassExpression') exported.type = 'ClassDeclaration';
+        return { type: 'ExportDefaultDeclaration', declaration: exported };
+      }
+      if (declaration) {
+        return {
+          type: 'ExportNamedDeclaration',
+          declaration: c.convert(declaration),
+          specifiers: [],
+          source: null,
+        };
+      }
+      const clause = code(node).find(child => child.type === 'export_clause');
+      if (clause) {
+        return {
+          type: 'ExportNamedDeclaration',
+          declaration: null,
+          specifiers: c.convertAll(code(clause)),
+          source,
+        };
+      }
+      if (hasToken(node, '*')) {
+        const namespace = code(node).find(child => child.type === 'namespace_export');
+        return { type: 'ExportAllDeclaration', exported: c.convert(code(namespace)[0]), source };
+      }
+      // `export = value` and `export as namespace Name`
+      return null;
+    },
+    export_specifier: (node, c) => {
+      const name = node.field('name');
+      return {
+        type: 'ExportSpecifier',
+        local: c.convert(name),
+        exported: c.convert(node.field('alias') ?? name),
+      };
+    },
+
+    // Expressions
+    identifier,
+    property_identifier: identifier,
+    shorthand_property_identifier: (node, c) => c.shorthand(node),
+    shorthand_property_identifier_pattern: (node, c) =>
+      node.parent?.type === 'object_pattern' ? c.shorthand(node) : identifier(node, c),
+    statement_identifier: identifier,
+    undefined: identifier,
+    private_property_identifier: node => ({ type: 'PrivateIdentifier', name: node.text.slice(1) }),
+    this: () => ({ type: 'ThisExpression' }),
+    super: () => ({ type: 'Super' }),
+    true: () => ({ type: 'Literal', value: true, raw: 'true' }),
+    false: () => ({ type: 'Literal', value: false, raw: 'false' }),
+    null: () => ({ type: 'Literal', value: null, raw: 'null' }),
+    number: node => {
+      const digits = node.text.replace(/_/g, '');
+      if (digits.endsWith('n')) {
+        const bigint = digits.slice(0, -1);
+        return { type: 'Literal', value: BigInt(bigint), raw: node.text, bigint };
+      }
+      const value = /^0[0-7]+$/.test(digits) ? parseInt(digits, 8) : Number(digits);
+      return { type: 'Literal', value, raw: node.text };
+    },
+    string: node => ({ type: 'Literal', value: cook(node.text.slice(1, -1)), raw: node.text }),
+    regex: node => {
+      const pattern = node.field('pattern')?.text ?? '';
+      const flags = node.field('flags')?.text ?? '';
+      return {
+        type: 'Literal',
+        value: regExp(pattern, flags),
+        raw: node.text,
+        regex: { pattern, flags },
+      };
+    },
+    template_string: (node, c) => c.template(node),
+    array: (node, c) => ({ type: 'ArrayExpression', elements: c.elements(node) }),
+    object: (node, c) => ({ type: 'ObjectExpression', properties: c.convertAll(code(node)) }),
+    pair: (node, c) => ({
+      type: 'Property',
+      ...c.key(node.field('key')),
+      value: c.convert(node.field('value')),
+      kind: 'init',
+      method: false,
+      shorthand: false,
+    }),
+    spread_element: (node, c) => ({ type: 'SpreadElement', argument: c.convert(code(node)[0]) }),
+    call_expression: (node, c) => {
+      const callee = node.field('function');
+      const args = node.field('arguments');
+      if (callee?.type === 'import') {
+        return { type: 'ImportExpression', source: c.convert(code(args)[0]) };
+      }
+      if (args?.type === 'template_string') {
+        return {
+          type: 'TaggedTemplateExpression',
+          tag: c.convert(callee),
+          quasi: c.convert(args),
+          ...c.typeArguments(node),
+        };
+      }
+      return {
+        type: 'CallExpression',
+        callee: c.convert(callee),
+        arguments: c.convertAll(code(args)),
+        optional: node.field('optional_chain') !== null,
+        ...c.typeArguments(node),
+      };
+    },
+    new_expression: (node, c) => ({
+      type: 'NewExpression',
+      callee: c.convert(node.field('constructor')),
+      arguments: c.convertAll(code(node.field('arguments'))),
+      ...c.typeArguments(node),
+    }),
+    member_expression: (node, c) => {
+      const object = node.field('object');
+      if (object?.type === 'import') {
+        return {
+          type: 'MetaProperty',
+          meta: c.make({ type: 'Identifier', name: 'import' }, object),
+          property: c.convert(node.field('property')),
+        };
+      }
+      return {
+        type: 'MemberExpression',
+        object: c.convert(object),
+        property: c.convert(node.field('property')),
+        computed: false,
+        optional: node.field('optional_chain') !== null,
+      };
+    },
+    subscript_expression: (node, c) => ({
+      type: 'MemberExpression',
+      object: c.convert(node.field('object')),
+      property: c.convert(node.field('index')),
+      computed: true,
+      optional: node.field('optional_chain') !== null,
+    }),
+    meta_property: (node, c) => {
+      const [meta, , property] = node.children;
+      return {
+        type: 'MetaProperty',
+        meta: c.make({ type: 'Identifier', name: meta.text }, meta),
+        property: c.make({ type: 'Identifier', name: property.text }, property),
+      };
+    },
+    assignment_expression: (node, c) => ({
+      type: 'AssignmentExpression',
+      operator: '=',
+      left: c.convert(node.field('left')),
+      right: c.convert(node.field('right')),
+    }),
+    augmented_assignment_expression: (node, c) => ({
+      type: 'AssignmentExpression',
+      operator: node.field('operator')?.text,
+      left: c.convert(node.field('left')),
+      right: c.convert(node.field('right')),
+    }),
+    binary_expression: (node, c) => {
+      const operator = node.field('operator')?.text ?? '';
+      return {
+        type: LOGICAL_OPERATORS.has(operator) ? 'LogicalExpression' : 'BinaryExpression',
+        operator,
+        left: c.convert(node.field('left')),
+        right: c.convert(node.field('right')),
+      };
+    },
+    unary_expression: (node, c) => ({
+      type: 'UnaryExpression',
+      operator: node.field('operator')?.text,
+      prefix: true,
+      argument: c.convert(node.field('argument')),
+    }),
+    update_expression: (node, c) => {
+      const operator = node.field('operator');
+      const argument = node.field('argument');
+      return {
+        type: 'UpdateExpression',
+        operator: operator?.text,
+        prefix: (operator?.startOffset ?? 0) < (argument?.startOffset ?? 0),
+        argument: c.convert(argument),
+      };
+    },
+    ternary_expression: (node, c) => ({
+      type: 'ConditionalExpression',
+      test: c.convert(node.field('condition')),
+      consequent: c.convert(node.field('consequence')),
+      alternate: c.convert(node.field('alternative')),
+    }),
+    sequence_expression: (node, c) => ({
+      type: 'SequenceExpression',
+      expressions: c.convertAll(flatten(node)),
+    }),
+    await_expression: (node, c) => ({
+      type: 'AwaitExpression',
+      argument: c.convert(code(node)[0]),
+    }),
+    yield_expression: (node, c) => ({
+      type: 'YieldExpression',
+      argument: c.convert(code(node)[0]),
+      delegate: hasToken(node, '*'),
+    }),
+
+    // Patterns
+    object_pattern: (node, c) => ({ type: 'ObjectPattern', properties: c.convertAll(code(node)) }),
+    array_pattern: (node, c) => ({ type: 'ArrayPattern', elements: c.elements(node) }),
+    pair_pattern: (node, c) => ({
+      type: 'Property',
+      ...c.key(node.field('key')),
+      value: c.convert(node.field('value')),
+      kind: 'init',
+      method: false,
+      shorthand: false,
+    }),
+    object_assignment_pattern: (node, c) => {
+      const left = node.field('left');
+      if (!left) return null;
+      return {
+        type: 'Property',
+        key: c.make({ type: 'Identifier', name: left.text }, left),
+        computed: false,
+        value: c.make(
+          {
+            type: 'AssignmentPattern',
+            left: c.make({ type: 'Identifier', name: left.text }, left),
+            right: c.convert(node.field('right')),
+          },
+          node
+        ),
+        kind: 'init',
+        method: false,
+        shorthand: true,
+      };
+    },
+    assignment_pattern: (node, c) => ({
+      type: 'AssignmentPattern',
+      left: c.convert(node.field('left')),
+      right: c.convert(node.field('right')),
+    }),
+    rest_pattern: (node, c) => ({ type: 'RestElement', argument: c.convert(code(node)[0]) }),
+
+    // JSX
+    jsx_element: (node, c) => {
+      const open = node.field('open_tag');
+      const close = node.field('close_tag');
+      const children = c.jsxChildren(node, open, close);
+      if (open && !open.field('name')) {
+        return {
+          type: 'JSXFragment',
+          openingFragment: c.make({ type: 'JSXOpeningFragment' }, open, tagStart(open)),
+          closingFragment: close && c.make({ type: 'JSXClosingFragment' }, close, tagStart(close)),
+          children,
+        };
+      }
+      return {
+        type: 'JSXElement',
+        openingElement: c.convert(open),
+        closingElement: c.convert(close),
+        children,
+      };
+    },
+    jsx_self_closing_element: (node, c) => ({
+      type: 'JSXElement',
+      openingElement: c.make(c.jsxOpening(node, true), node, tagStart(node)),
+      closingElement: null,
+      children: [],
+    }),
+    jsx_opening_element: (node, c) => c.jsxOpening(node, false),
+    jsx_closing_element: (node, c) => ({
+      type: 'JSXClosingElement',
+      name: c.jsxName(node.field('name')),
+    }),
+    jsx_attribute: (node, c) => {
+      const [name, value] = code(node);
+      return {
+        type: 'JSXAttribute',
+        name: c.jsxName(name),
+        value:
+          value?.type === 'string'
+            ? c.make(
+                {
+                  type: 'Literal',
+                  value: decodeEntities(value.text.slice(1, -1)),
+                  raw: value.text,
+                },
+                value
+              )
+            : c.convert(value),
+      };
+    },
+    jsx_expression: (node, c) => {
+      const [expression] = code(node);
+      if (expression?.type === 'spread_element') {
+        const argument = c.convert(code(expression)[0]);
+        return node.fieldName === 'attribute'
+          ? { type: 'JSXSpreadAttribute', argument }
+          : { type: 'JSXSpreadChild', expression: argument };
+      }
+      return {
+        type: 'JSXExpressionContainer',
+        expression: expression
+          ? c.convert(expression)
+          : c.make({ type: 'JSXEmptyExpression' }, node, node.startOffset + 1, node.endOffset - 1),
+      };
+    },
+
+    // TypeScript
+    type_annotation: (node, c) => ({
+      type: 'TSTypeAnnotation',
+      typeAnnotation: c.convert(code(node)[0]),
+    }),
+    type_predicate_annotation: (node, c) => ({
+      type: 'TSTypeAnnotation',
+      typeAnnotation: c.convert(code(node)[0]),
+    }),
+    asserts_annotation: (node, c) => {
+      const [asserts] = code(node);
+      const [target] = code(asserts);
+      const predicate = target?.type === 'type_predicate' ? target : undefined;
+      return {
+        type: 'TSTypeAnnotation',
+        typeAnnotation: c.make(
+          {
+            type: 'TSTypePredicate',
+            asserts: true,
+            parameterName: c.predicateName(predicate?.field('name') ?? target),
+            typeAnnotation: c.annotation(predicate?.field('type')),
+          },
+          asserts
+        ),
+      };
+    },
+    type_predicate: (node, c) => ({
+      type: 'TSTypePredicate',
+      asserts: false,
+      parameterName: c.predicateName(node.field('name')),
+      typeAnnotation: c.annotation(node.field('type')),
+    }),
+    predefined_type: node => (KEYWORD_TYPES[node.text] ? { type: KEYWORD_TYPES[node.text] } : null),
+    this_type: () => ({ type: 'TSThisType' }),
+    type_identifier: (node, c) =>
+      // Names of declarations, as opposed to references to a type
+      node.fieldName === 'name'
+        ? identifier(node, c)
+        : { type: 'TSTypeReference', typeName: c.typeName(node) },
+    nested_type_identifier: (node, c) => ({ type: 'TSTypeReference', typeName: c.typeName(node) }),
+    nested_identifier: (node, c) => c.qualifiedName(node),
+    generic_type: (node, c) => ({
+      type: 'TSTypeReference',
+      typeName: c.typeName(node.field('name')),
+      ...c.typeArguments(node),
+    }),
+    type_arguments: (node, c) => ({
+      type: 'TSTypeParameterInstantiation',
+      params: c.convertAll(code(node)),
+    }),
+    type_parameters: (node, c) => ({
+      type: 'TSTypeParameterDeclaration',
+      params: c.convertAll(code(node)),
+    }),
+    type_parameter: (node, c) =>
+      defined({
+        type: 'TSTypeParameter',
+        name: c.convert(node.field('name')),
+        constraint: c.convert(code(node.field('constraint'))[0]),
+        default: c.convert(code(node.field('value'))[0]),
+        in: hasToken(node, 'in') || undefined,
+        out: hasToken(node, 'out') || undefined,
+        const: hasToken(node, 'const') || undefined,
+      }),
+    union_type: (node, c) => ({ type: 'TSUnionType', types: c.convertAll(flatten(node)) }),
+    intersection_type: (node, c) => ({
+      type: 'TSIntersectionType',
+      types: c.convertAll(flatten(node)),
+    }),
+    array_type: (node, c) => ({ type: 'TSArrayType', elementType: c.convert(code(node)[0]) }),
+    tuple_type: (node, c) => ({ type: 'TSTupleType', elementTypes: c.convertAll(code(node)) }),
+    optional_type: (node, c) => ({
+      type: 'TSOptionalType',
+      typeAnnotation: c.convert(code(node)[0]),
+    }),
+    rest_type: (node, c) => ({ type: 'TSRestType', typeAnnotation: c.convert(code(node)[0]) }),
+    literal_type: (node, c) => {
+      const [literal] = code(node);
+      if (literal?.type === 'null') return { type: 'TSNullKeyword' };
+      if (literal?.type === 'undefined') return { type: 'TSUndefinedKeyword' };
+      return { type: 'TSLiteralType', literal: c.convert(literal) };
+    },
+    function_type: (node, c) => ({
+      type: 'TSFunctionType',
+      params: c.params(node.field('parameters')),
+      returnType: c.annotation(node.field('return_type')),
+      ...c.typeParameters(node),
+    }),
+    constructor_type: (node, c) => ({
+      type: 'TSConstructorType',
+      abstract: hasToken(node, 'abstract'),
+      params: c.params(node.field('parameters')),
+      returnType: c.annotation(node.field('type')),
+      ...c.typeParameters(node),
+    }),
+    type_query: (node, c) => ({ type: 'TSTypeQuery', exprName: c.typeName(code(node)[0]) }),
+    index_type_query: (node, c) => ({
+      type: 'TSTypeOperator',
+      operator: 'keyof',
+      typeAnnotation: c.convert(code(node)[0]),
+    }),
+    readonly_type: (node, c) => ({
+      type: 'TSTypeOperator',
+      operator: 'readonly',
+      typeAnnotation: c.convert(code(node)[0]),
+    }),
+    lookup_type: (node, c) => {
+      const [objectType, indexType] = code(node);
+      return {
+        type: 'TSIndexedAccessType',
+        objectType: c.convert(objectType),
+        indexType: c.convert(indexType),
+      };
+    },
+    conditional_type: (node, c) => ({
+      type: 'TSConditionalType',
+      checkType: c.convert(node.field('left')),
+      extendsType: c.convert(node.field('right')),
+      trueType: c.convert(node.field('consequence')),
+      falseType: c.convert(node.field('alternative')),
+    }),
+    infer_type: (node, c) => {
+      const [name] = code(node);
+      return {
+        type: 'TSInferType',
+        typeParameter: c.make(
+          { type: 'TSTypeParameter', name: c.make({ type: 'Identifier', name: name.text }, name) },
+          name
+        ),
+      };
+    },
+    object_type: (node, c) => ({ type: 'TSTypeLiteral', members: c.convertAll(code(node)) }),
+    interface_body: (node, c) => ({ type: 'TSInterfaceBody', body: c.convertAll(code(node)) }),
+    property_signature: (node, c) => ({
+      type: 'TSPropertySignature',
+      ...c.key(node.field('name')),
+      optional: hasToken(node, '?'),
+      readonly: memberModifiers(node).has('readonly'),
+      static: false,
+      ...defined({ typeAnnotation: c.convert(node.field('type')) }),
+    }),
+    index_signature: (node, c) => {
+      const name = node.field('name');
+      const indexType = node.field('index_type');
+      // Mapped types such as `[K in keyof T]: U`
+      if (!name || !indexType) return null;
+      const parameter = c.make(
+        { type: 'Identifier', name: name.text, typeAnnotation: c.annotation(indexType) },
+        name,
+        name.startOffset,
+        indexType.endOffset
+      );
+      return {
+        type: 'TSIndexSignature',
+        parameters: [parameter],
+        typeAnnotation: c.convert(node.field('type')),
+        readonly: hasToken(node, 'readonly'),
+        static: hasToken(node, 'static'),
+      };
+    },
+    call_signature: (node, c) => ({
+      type: 'TSCallSignatureDeclaration',
+      params: c.params(node.field('parameters')),
+      ...c.signature(node),
+    }),
+    construct_signature: (node, c) => ({
+      type: 'TSConstructSignatureDeclaration',
+      params: c.params(node.field('parameters')),
+      returnType: c.convert(node.field('type')),
+      ...c.typeParameters(node),
+    }),
+    type_alias_declaration: (node, c) => ({
+      type: 'TSTypeAliasDeclaration',
+      id: c.convert(node.field('name')),
+      typeAnnotation: c.convert(node.field('value')),
+      ...c.typeParameters(node),
+    }),
+    interface_declaration: (node, c) => {
+      const clause = code(node).find(child => child.type === 'extends_type_clause');
+      return {
+        type: 'TSInterfaceDeclaration',
+        id: c.convert(node.field('name')),
+        extends: code(clause).map(type => c.heritage('TSInterfaceHeritage', type)),
+        body: c.convert(node.field('body')),
+        ...c.typeParameters(node),
+      };
+    },
+    enum_declaration: (node, c) => ({
+      type: 'TSEnumDeclaration',
+      id: c.convert(node.field('name')),
+      const: hasToken(node, 'const'),
+      members: code(node.field('body')).map(member =>
+        member.type === 'enum_assignment'
+          ? c.make(
+              {
+                type: 'TSEnumMember',
+                id: c.convert(member.field('name')),
+                initializer: c.convert(member.field('value')),
+              },
+              member
+            )
+          : c.make({ type: 'TSEnumMember', id: c.convert(member) }, member)
+      ),
+    }),
+    internal_module: (node, c) => c.module('namespace', node),
+    module: (node, c) => c.module('module', node),
+    ambient_declaration: (node, c) => {
+      const [declaration] = code(node);
+      // `declare global { ... }`
+      if (!declaration || declaration.type === 'statement_block') return null;
+      const converted = c.convert(declaration);
+      converted.declare = true;
+      return c.relocate(converted, node);
+    },
+    as_expression: (node, c) => c.typeCast('TSAsExpression', node),
+    satisfies_expression: (node, c) => c.typeCast('TSSatisfiesExpression', node),
+    non_null_expression: (node, c) => ({
+      type: 'TSNonNullExpression',
+      expression: c.convert(code(node)[0]),
+    }),
+    type_assertion: (node, c) => {
+      const [typeArguments, expression] = code(node);
+      return {
+        type: 'TSTypeAssertion',
+        typeAnnotation: c.convert(code(typeArguments)[0]),
+        expression: c.convert(expression),
+      };
+    },
+  })
+);
+
+/**
+ * Convert `root` and everything below it to ESTree, following TS-ESTree for
+ * TypeScript syntax. Locations count lines from 1 and columns from 0, and ranges
+ * are UTF-16 offsets into the source, as JavaScript tooling expects.
+ */
+export function toESTree(root: TreeNode): ESTreeConversion<TreeNode> {
+  const builder = new ESTreeBuilder();
+  const ast = builder.convert(root);
+  const comments = root.findAll('comment, hash_bang_line').map(comment =>
+    builder.make(
+      comment.type === 'hash_bang_line'
+        ? { type: 'Shebang', value: comment.text.slice(2) }
+        : {
+            type: comment.text.startsWith('//') ? 'Line' : 'Block',
+            value: comment.text.startsWith('//')
+              ? comment.text.slice(2)
+              : comment.text.slice(2, -2),
+          },
+      comment
+    )
+  );
+  if (ast.type === 'Program') ast.comments = comments;
+
+  return {
+    ast,
+    treeNodes: builder.treeNodes,
+    unmapped: [...builder.unmapped],
+    comments,
+  };
+}
+
+class ESTreeBuilder {
+  treeNodes = new Map<ESTreeNode, TreeNode>();
+  unmapped = new Set<TreeNode>();
+
+  convert(node: TreeNode): ESTreeNode;
+  convert(node: TreeNode | null | undefined): ESTreeNode | null;
+  convert(node: TreeNode | null | undefined): ESTreeNode | null {
+    if (!node) return null;
+    if (WRAPPER_TYPES.has(node.type)) return this.convert(code(node)[0]);
+
+    let fields = CONVERTERS.get(node.type)?.(node, this) ?? null;
+    if (!fields) {
+      this.unmapped.add(node);
+      fields = { type: 'UnmappedNode', nodeType: node.type };
+    }
+    const estree = this.treeNodes.has(fields as ESTreeNode)
+      ? (fields as ESTreeNode)
+      : this.make(fields, node, JSX_TAG_TYPES.has(node.type) ? tagStart(node) : node.startOffset);
+
+    return isChainTop(node)
+      ? this.make({ type: 'ChainExpression', expression: estree }, node)
+      : estree;
+  }
+
+  convertAll(nodes: TreeNode[]): ESTreeNode[] {
+    return nodes.map(node => this.convert(node));
+  }
+
+  /**
+   * Add the location of `from`, or of the offsets between `start` and `end`, to
+   * `fields` and remember which node it came from
+   */
+  make(fields: ESTreeFields, from: TreeNode, start = from.startOffset, end = from.endOffset) {
+    const estree = { ...fields } as ESTreeNode;
+    this.treeNodes.set(estree, from);
+    return this.locate(estree, from, start, end);
+  }
+
+  // Move an ESTree node to the range of `node`, which it now stands for
+  relocate(estree: ESTreeNode, node: TreeNode): ESTreeNode {
+    this.treeNodes.set(estree, node);
+    return this.locate(estree, node, node.startOffset, node.endOffset);
+  }
+
+  // Add a type annotation to a binding, extending it to cover the annotation
+  annotate(target: ESTreeNode | null, annotation: TreeNode | null): ESTreeNode | null {
+    if (!target || !annotation) return target;
+    target.typeAnnotation = this.convert(annotation);
+    return this.stretch(target, target.range[0], annotation.endOffset);
+  }
+
+  // Change the range of a node built from part of the source it now covers
+  stretch(estree: ESTreeNode, start: number, end: number): ESTreeNode {
+    const from = this.treeNodes.get(estree);
+    return from ? this.locate(estree, from, start, end) : estree;
+  }
+
+  // A bare type wrapped in the `TSTypeAnnotation` TS-ESTree expects
+  annotation(type: TreeNode | null | undefined): ESTreeNode | null {
+    if (!type) return null;
+    return this.make({ type: 'TSTypeAnnotation', typeAnnotation: this.convert(type) }, type);
+  }
+
+  // `for` clauses are statements in tree-sitter but expressions in ESTree
+  clause(node: TreeNode | null): ESTreeNode | null {
+    if (!node || node.type === 'empty_statement') return null;
+    return this.convert(node.type === 'expression_statement' ? code(node)[0] : node);
+  }
+
+  key(name: TreeNode | null): { key: ESTreeNode | null; computed: boolean } {
+    if (name?.type === 'computed_property_name') {
+      return { key: this.convert(code(name)[0]), computed: true };
+    }
+    return { key: this.convert(name), computed: false };
+  }
+
+  // Array elements with `null` for holes, as in `[a, , b]`
+  elements(node: TreeNode): (ESTreeNode | null)[] {
+    const elements: (ESTreeNode | null)[] = [];
+    let expectingElement = true;
+    for (const child of node.children) {
+      if (child.type === ',') {
+        if (expectingElement) elements.push(null);
+        expectingElement = true;
+      } else if (child.isNamed && child.type !== 'comment') {
+        elements.push(this.convert(child));
+        expectingElement = false;
+      }
+    }
+    return elements;
+  }
+
+  shorthand(node: TreeNode): ESTreeFields {
+    return {
+      type: 'Property',
+      key: this.make({ type: 'Identifier', name: node.text }, node),
+      computed: false,
+      value: this.make({ type: 'Identifier', name: node.text }, node),
+      kind: 'init',
+      method: false,
+      shorthand: true,
+    };
+  }
+
+  template(node: TreeNode): ESTreeFields {
+    const substitutions = node.children.filter(child => child.type === 'template_substitution');
+    const quasis: ESTreeNode[] = [];
+    let start = node.startOffset + 1;
+    const quasi = (end: number, tail: boolean) => {
+      const raw = node.sourceCode.slice(start, end);
+      quasis.push(
+        this.make(
+          { type: 'TemplateElement', value: { raw, cooked: cook(raw) }, tail },
+          node,
+          start,
+          end
+        )
+      );
+    };
+    for (const substitution of substitutions) {
+      quasi(substitution.startOffset, false);
+      start = substitution.endOffset;
+    }
+    quasi(node.endOffset - 1, true);
+
+    return {
+      type: 'TemplateLiteral',
+      quasis,
+      expressions: substitutions.map(substitution => this.convert(code(substitution)[0])),
+    };
+  }
+
+  function(type: string, node: TreeNode): ESTreeFields {
+    return {
+      type,
+      id: this.convert(node.field('name')),
+      params: this.params(node.field('parameters')),
+      body: this.convert(node.field('body')),
+      async: hasToken(node, 'async'),
+      generator: hasToken(node, '*'),
+      expression: false,
+      ...this.signature(node),
+    };
+  }
+
+  // The body-less function of an abstract method or overload
+  emptyBodyFunction(node: TreeNode): ESTreeNode {
+    const modifiers = memberModifiers(node);
+    return this.make(
+      {
+        type: 'TSEmptyBodyFunctionExpression',
+        id: null,
+        params: this.params(node.field('parameters')),
+        body: null,
+        async: modifiers.has('async'),
+        generator: modifiers.has('*'),
+        expression: false,
+        ...this.signature(node),
+      },
+      node,
+      (node.field('type_parameters') ?? node.field('parameters'))?.startOffset
+    );
+  }
+
+  params(parameters: TreeNode | null): ESTreeNode[] {
+    return this.convertAll(code(parameters));
+  }
+
+  parameter(node: TreeNode): ESTreeNode {
+    const pattern = node.field('pattern');
+    let parameter =
+      pattern?.type === 'this'
+        ? this.make({ type: 'Identifier', name: 'this' }, pattern)
+        : this.convert(pattern);
+    if (!parameter) return this.make({ type: 'UnmappedNode', nodeType: node.type }, node);
+
+    if (node.type === 'optional_parameter') parameter.optional = true;
+    this.annotate(parameter, node.field('type'));
+
+    const value = node.field('value');
+    if (value) {
+      parameter = this.make(
+        { type: 'AssignmentPattern', left: parameter, right: this.convert(value) },
+        node,
+        parameter.range[0]
+      );
+    }
+
+    const modifiers = memberModifiers(node, 'pattern');
+    const accessibility = code(node).find(child => child.type === 'accessibility_modifier');
+    const override = code(node).some(child => child.type === 'override_modifier');
+    if (accessibility || override || modifiers.has('readonly')) {
+      return this.make(
+        {
+          type: 'TSParameterProperty',
+          parameter,
+          ...defined({
+            accessibility: accessibility?.text,
+            readonly: modifiers.has('readonly') || undefined,
+            override: override || undefined,
+          }),
+        },
+        node
+      );
+    }
+    return parameter;
+  }
+
+  // A labelled tuple element such as `x?: string` or `...rest: T[]`
+  tupleMember(node: TreeNode): ESTreeNode {
+    const name = node.field('name');
+    const rest = name?.type === 'rest_pattern' ? name : null;
+    const label = rest ? code(rest)[0] : name;
+    const member = this.make(
+      {
+        type: 'TSNamedTupleMember',
+        label: this.convert(label),
+        elementType: this.convert(code(node.field('type'))[0]),
+        optional: node.type === 'optional_parameter',
+      },
+      node,
+      label?.startOffset
+    );
+    return rest ? this.make({ type: 'TSRestType', typeAnnotation: member }, node) : member;
+  }
+
+  // Type parameters and return type, when present
+  signature(node: TreeNode): Record<string, unknown> {
+    return defined({
+      ...this.typeParameters(node),
+      returnType: this.convert(node.field('return_type')),
+    });
+  }
+
+  typeParameters(node: TreeNode): Record<string, unknown> {
+    return defined({ typeParameters: this.convert(node.field('type_parameters')) });
+  }
+
+  typeArguments(node: TreeNode): Record<string, unknown> {
+    return defined({ typeArguments: this.convert(node.field('type_arguments')) });
+  }
+
+  class(type: string, node: TreeNode): ESTreeFields {
+    const heritage = code(node).find(child => child.type === 'class_heritage');
+    const clauses = code(heritage);
+    const extendsClause = clauses.find(clause => clause.type === 'extends_clause');
+    const implementsClause = clauses.find(clause => clause.type === 'implements_clause');
+    // JavaScript heritage holds the superclass expression itself
+    const superClass = extendsClause
+      ? extendsClause.field('value')
+      : implementsClause
+        ? null
+        : clauses[0];
+
+    return {
+      type,
+      id: this.convert(node.field('name')),
+      superClass: this.convert(superClass),
+      body: this.convert(node.field('body')),
+      ...defined({
+        superTypeArguments: this.convert(extendsClause?.field('type_arguments')),
+        implements:
+          implementsClause &&
+          code(implementsClause).map(clause => this.heritage('TSClassImplements', clause)),
+        abstract: node.type === 'abstract_class_declaration' || undefined,
+        decorators: nonEmpty(this.convertAll(node.fields('decorator'))),
+      }),
+      ...this.typeParameters(node),
+    };
+  }
+
+  property(node: TreeNode): ESTreeFields {
+    const modifiers = memberModifiers(node);
+    return {
+      type: modifiers.has('abstract') ? 'TSAbstractPropertyDefinition' : 'PropertyDefinition',
+      ...this.key(node.field('property') ?? node.field('name')),
+      value: this.convert(node.field('value')),
+      static: modifiers.has('static'),
+      ...this.memberFields(node, modifiers),
+      ...defined({
+        typeAnnotation: this.convert(node.field('type')),
+        readonly: modifiers.has('readonly') || undefined,
+        declare: modifiers.has('declare') || undefined,
+        definite: hasToken(node, '!') || undefined,
+      }),
+    };
+  }
+
+  // TypeScript modifiers and decorators shared by class members
+  memberFields(node: TreeNode, modifiers: Set<string>): Record<string, unknown> {
+    return defined({
+      accessibility: code(node).find(child => child.type === 'accessibility_modifier')?.text,
+      override: modifiers.has('override_modifier') || undefined,
+      optional: hasToken(node, '?') || undefined,
+      decorators: nonEmpty(this.convertAll(node.fields('decorator'))),
+    });
+  }
+
+  // `implements Foo<T>` or `extends Bar` of a class or interface
+  heritage(type: string, node: TreeNode): ESTreeNode {
+    const name = node.type === 'generic_type' ? node.field('name') : node;
+    return this.make({ type, expression: this.typeName(name), ...this.typeArguments(node) }, node);
+  }
+
+  // The name in a type reference: an identifier or a qualified name like `A.B.C`
+  typeName(node: TreeNode | null): ESTreeNode | null {
+    if (!node) return null;
+    if (/identifier$/.test(node.type) && !node.type.startsWith('nested')) {
+      return this.make({ type: 'Identifier', name: node.text }, node);
+    }
+    if (['nested_type_identifier', 'nested_identifier', 'member_expression'].includes(node.type)) {
+      return this.make(this.qualifiedName(node), node);
+    }
+    return this.convert(node);
+  }
+
+  qualifiedName(node: TreeNode): ESTreeFields {
+    const [left, right] = code(node);
+    return { type: 'TSQualifiedName', left: this.typeName(left), right: this.typeName(right) };
+  }
+
+  predicateName(node: TreeNode | null | undefined): ESTreeNode | null {
+    if (node?.type === 'this') return this.make({ type: 'TSThisType' }, node);
+    return this.convert(node);
+  }
+
+  typeCast(type: string, node: TreeNode): ESTreeFields {
+    const [expression, annotation] = code(node);
+    // `as const` has no type node, just the keyword
+    const keyword = node.children[node.children.length - 1];
+    return {
+      type,
+      expression: this.convert(expression),
+      typeAnnotation: annotation
+        ? this.convert(annotation)
+        : this.make(
+            {
+              type: 'TSTypeReference',
+              typeName: this.make({ type: 'Identifier', name: keyword.text }, keyword),
+            },
+            keyword
+          ),
+    };
+  }
+
+  module(kind: string, node: TreeNode): ESTreeFields {
+    const body = node.field('body');
+    return {
+      type: 'TSModuleDeclaration',
+      id: this.convert(node.field('name')),
+      kind,
+      ...defined({
+        body: body && this.make({ type: 'TSModuleBlock', body: this.convertAll(code(body)) }, body),
+      }),
+    };
+  }
+
+  jsxOpening(node: TreeNode, selfClosing: boolean): ESTreeFields {
+    return {
+      type: 'JSXOpeningElement',
+      name: this.jsxName(node.field('name')),
+      attributes: this.convertAll(node.fields('attribute')),
+      selfClosing,
+      ...this.typeArguments(node),
+    };
+  }
+
+  jsxName(node: TreeNode | null | undefined): ESTreeNode | null {
+    if (!node) return null;
+    if (node.type === 'member_expression') {
+      return this.make(
+        {
+          type: 'JSXMemberExpression',
+          object: this.jsxName(node.field('object')),
+          property: this.jsxName(node.field('property')),
+        },
+        node
+      );
+    }
+    if (node.type === 'jsx_namespace_name') {
+      const [namespace, name] = code(node);
+      return this.make(
+        { type: 'JSXNamespacedName', namespace: this.jsxName(namespace), name: this.jsxName(name) },
+        node
+      );
+    }
+    return this.make({ type: 'JSXIdentifier', name: node.text }, node);
+  }
+
+  /**
+   * The children of a JSX element. Text between the other children becomes one
+   * `JSXText` each, whitespace and character references included.
+   */
+  jsxChildren(node: TreeNode, open: TreeNode | null, close: TreeNode | null): ESTreeNode[] {
+    const textTypes = new Set(['jsx_text', 'html_character_reference']);
+    const inner = node.children.filter(child => child !== open && child !== close);
+    const children: ESTreeNode[] = [];
+    let start = open?.endOffset ?? node.startOffset;
+
+    const text = (end: number) => {
+      if (end <= start) return;
+      const raw = node.sourceCode.slice(start, end);
+      const from = inner.find(child => textTypes.has(child.type) && child.startOffset >= start);
+      children.push(
+        this.make({ type: 'JSXText', value: decodeEntities(raw), raw }, from ?? node, start, end)
+      );
+    };
+    for (const child of inner) {
+      if (textTypes.has(child.type) || !child.isNamed) continue;
+      text(JSX_TAG_TYPES.has(child.type) ? tagStart(child) : child.startOffset);
+      children.push(this.convert(child));
+      start = child.endOffset;
+    }
+    text(close ? tagStart(close) : node.endOffset);
+
+    return children;
+  }
+
+  private locate(estree: ESTreeNode, from: TreeNode, start: number, end: number): ESTreeNode {
+    const positions = positionsOf(from.node.tree, from.sourceCode);
+    const point = (offset: number) => {
+      const { line, column } = positions.positionAt(offset);
+      return { line, column: column - 1 };
+    };
+    estree.range = [start, end];
+    estree.loc = { start: point(start), end: point(end) };
+    return estree;
+  }
+}
+
+// tree-sitter counts whitespace before a nested JSX tag as part of its `<` token
+function tagStart(node: TreeNode): number {
+  let first = node;
+  while (first.children.length > 0) first = first.children[0];
+  return first.endOffset - first.text.trimStart().length;
+}
+
+// Named children that are code rather than comments
+function code(node: TreeNode | null | undefined): TreeNode[] {
+  return node?.namedChildren.filter(child => child.type !== 'comment') ?? [];
+}
+
+function hasToken(node: TreeNode, token: string): boolean {
+  return node.children.some(child => !child.isNamed && child.type === token);
+}
+
+// Keywords and modifier nodes before a member's name, such as `static` or `get`
+function memberModifiers(node: TreeNode, nameField = 'name'): Set<string> {
+  const modifiers = new Set<string>();
+  for (const child of node.children) {
+    if (child.fieldName === nameField || child.fieldName === 'property') break;
+    modifiers.add(child.type);
+  }
+  return modifiers;
+}
+
+// The operands of `a | b | c`, which tree-sitter nests pairwise
+function flatten(node: TreeNode): TreeNode[] {
+  return code(node).flatMap(child => (child.type === node.type ? flatten(child) : [child]));
+}
+
+// The last link of an optional chain gets wrapped in a ChainExpression
+function isChainTop(node: TreeNode): boolean {
+  if (!CHAIN_TYPES.has(node.type)) return false;
+  const { parent } = node;
+  if (parent && CHAIN_TYPES.has(parent.type) && chainObject(parent)?.node.id === node.node.id) {
+    return false;
+  }
+  for (let link: TreeNode | null = node; link && CHAIN_TYPES.has(link.type); ) {
+    if (link.field('optional_chain')) return true;
+    link = chainObject(link);
+  }
+  return false;
+}
+
+function chainObject(node: TreeNode): TreeNode | null {
+  return node.type === 'call_expression' ? node.field('function') : node.field('object');
+}
+
+// String statements at the start of a program or function body, like 'use strict'
+function isDirective(node: TreeNode): boolean {
+  const { parent } = node;
+  const isBody =
+    parent?.type === 'program' ||
+    (parent?.type === 'statement_block' && FUNCTION_TYPES.has(parent.parent?.type ?? ''));
+  if (!isBody || code(node)[0]?.type !== 'string') return false;
+
+  const statements = code(parent).filter(statement => statement.type !== 'hash_bang_line');
+  const index = statements.indexOf(node);
+  return statements
+    .slice(0, index)
+    .every(
+      statement =>
+        statement.type === 'expression_statement' && code(statement)[0]?.type === 'string'
+    );
+}
+
+// Drop properties without a value, for fields that only some nodes have
+function defined<T extends Record<string, unknown>>(fields: T): T {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined && value !== null)
+  ) as T;
+}
+
+function nonEmpty<T>(items: T[]): T[] | undefined {
+  return items.length > 0 ? items : undefined;
+}
+
+// The value of a string literal's content, with escape sequences applied
+function cook(content: string): string {
+  return content.replace(
+    /\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|\r\n|[\s\S])/g,
+    (_, escape: string) => {
+      if (escape.length > 1 && /^[ux]/.test(escape)) {
+        return String.fromCodePoint(parseInt(escape.replace(/^[ux]\{?|\}$/g, ''), 16));
+      }
+      switch (escape) {
+        case 'n':
+          return '\n';
+        case 't':
+          return '\t';
+        case 'r':
+          return '\r';
+        case 'b':
+          return '\b';
+        case 'f':
+          return '\f';
+        case 'v':
+          return '\v';
+        case '0':
+          return '\0';
+        // Line continuations
+        case '\n':
+        case '\r':
+        case '\r\n':
+        case ' ':
+        case ' ':
+          return '';
+        default:
+          return escape;
+      }
+    }
+  );
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return JSX_ENTITIES[name] ?? entity;
+  });
+}
+
+// Literals with flags this runtime does not support have no value, as in ESTree
+function regExp(pattern: string, flags: string): RegExp | null {
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return null;
+  }
+}
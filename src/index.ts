@@ -1,7 +1,21 @@
 export { parse, TreeHugger, TreeNode } from './tree-hugger';
 export * from './types';
 export { LANGUAGES, detectLanguage, getLanguageByName } from './languages';
-export { Transform } from './transform';
+export { Transform, Edit } from './transform';
+export { SourcePositions } from './positions';
 export { visit, TreeVisitor, Visitor, VisitorFunction, ScopeAnalyzer } from './visitor';
-export { PatternParser } from './pattern-parser';
+export { PatternParser, Selector, CompiledQuery, PatternParserOptions } from './pattern-parser';
+export {
+  explainPattern,
+  debugMatch,
+  formatMatchExplanation,
+  formatSelector,
+} from './pattern-debug';
+export {
+  PatternRegistry,
+  AliasDefinition,
+  PseudoHandler,
+  RegisterOptions,
+} from './pattern-registry';
+export { CodePattern } from './code-pattern';
 export * from './errors';
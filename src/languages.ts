@@ -64,3 +64,49 @@ export function detectLanguage(filenameOrCode: string): Language | null {
 export function getLanguageByName(name: string): Language | null {
   return LANGUAGES.find(lang => lang.name === name) ?? null;
 }
+
+interface NodeTypeInfo {
+  type: string;
+  named: boolean;
+  fields?: Record<string, unknown>;
+}
+
+let grammarInfo: { nodeTypes: Set<string>; namedTypes: Set<string>; fields: Set<string> } | null =
+  null;
+
+// Node types and field names declared by the bundled grammars (node-types.json)
+function getGrammarInfo() {
+  if (!grammarInfo) {
+    grammarInfo = { nodeTypes: new Set(), namedTypes: new Set(), fields: new Set() };
+    for (const language of LANGUAGES) {
+      const nodeTypeInfo = (language.parser as { nodeTypeInfo?: NodeTypeInfo[] }).nodeTypeInfo;
+      for (const info of nodeTypeInfo ?? []) {
+        grammarInfo.nodeTypes.add(info.type);
+        if (info.named) grammarInfo.namedTypes.add(info.type);
+        Object.keys(info.fields ?? {}).forEach(field => grammarInfo?.fields.add(field));
+      }
+    }
+  }
+  return grammarInfo;
+}
+
+/**
+ * All node types of the supported grammars, named and anonymous (`async`, `=>`)
+ */
+export function getKnownNodeTypes(): Set<string> {
+  return getGrammarInfo().nodeTypes;
+}
+
+/**
+ * Named node types of the supported grammars, e.g. `call_expression`
+ */
+export function getNamedNodeTypes(): Set<string> {
+  return getGrammarInfo().namedTypes;
+}
+
+/**
+ * Field names used by the supported grammars, e.g. `function`, `body`, `condition`
+ */
+export function getKnownFieldNames(): Set<string> {
+  return getGrammarInfo().fields;
+}
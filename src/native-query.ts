@@ -0,0 +1,53 @@
+import Parser from 'tree-sitter';
+import { PatternError } from './errors';
+
+// Readable names for the error kinds reported by the tree-sitter query compiler
+const QUERY_ERROR_KINDS: Record<string, string> = {
+  TSQueryErrorSyntax: 'Invalid syntax',
+  TSQueryErrorNodeType: 'Unknown node type',
+  TSQueryErrorField: 'Unknown field',
+  TSQueryErrorCapture: 'Unknown capture',
+  TSQueryErrorStructure: 'Impossible pattern',
+  TSQueryErrorLanguage: 'Incompatible language',
+};
+
+// Compiled queries, per language and then per query source
+const queryCache = new WeakMap<object, Map<string, Parser.Query>>();
+
+/**
+ * Compile a tree-sitter S-expression query for a language, reusing an earlier
+ * compilation of the same source. Predicates `#eq?`, `#match?` and `#any-of?`
+ * (and their `not-` forms) are evaluated by tree-sitter itself.
+ */
+export function compileQuery(language: object, source: string): Parser.Query {
+  let queries = queryCache.get(language);
+  if (!queries) {
+    queries = new Map();
+    queryCache.set(language, queries);
+  }
+
+  let query = queries.get(source);
+  if (!query) {
+    query = createQuery(language, source);
+    queries.set(source, query);
+  }
+
+  return query;
+}
+
+function createQuery(language: object, source: string): Parser.Query {
+  try {
+    return new Parser.Query(language, source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const match = /Query error of type (\w+) at position (\d+)/.exec(message);
+    if (!match) {
+      throw new PatternError(`Invalid query: ${message}`, source);
+    }
+
+    // tree-sitter reports a byte offset into the UTF-8 source
+    const offset = Buffer.from(source).subarray(0, Number(match[2])).toString().length;
+    const kind = QUERY_ERROR_KINDS[match[1]] ?? match[1];
+    throw new PatternError(`${kind} in query at offset ${offset}`, source, offset);
+  }
+}
@@ -1,16 +1,48 @@
 import { SyntaxNode } from 'tree-sitter';
-import { NodeWrapper, NodePredicate } from './types';
-import { PatternParser } from './pattern-parser';
+import {
+  NodeWrapper,
+  NodePredicate,
+  CaptureMatch,
+  Captures,
+  MatchResult,
+  Bindings,
+  QueryMatch,
+  FindOptions,
+  LineRange,
+  SourceRange,
+  ColumnUnit,
+  ESTreeConversion,
+  StructuralOptions,
+} from './types';
+import { PatternParser, CompiledQuery } from './pattern-parser';
+import { PatternRegistry, globalRegistry } from './pattern-registry';
+import { LRUCache } from './lru-cache';
+import { CodePattern } from './code-pattern';
+import { compileQuery } from './native-query';
 import { visit, Visitor, VisitorFunction } from './visitor';
-import { ParseError } from './errors';
+import { ParseError, PatternError, TreeHuggerError } from './errors';
+import { SourcePositions, positionsOf } from './positions';
+import { isDetached } from './serialization';
+import { SEMANTIC_ATTRIBUTES } from './semantic-attributes';
+import { toESTree } from './estree';
+import { structuralHash, structuralKey } from './structure';
+
+// Compiled predicates for recently used patterns, shared by all trees
+const patternCache = new LRUCache<string, NodePredicate>(256);
 
 export class TreeNode implements NodeWrapper {
   private _children?: TreeNode[];
+  private _namedChildren?: TreeNode[];
+  // null once looked up for children without a field
+  private _fieldName?: string | null;
+  // Whether the field names of all children have been looked up
+  private _childFieldsLabelled = false;
 
   constructor(
     public node: SyntaxNode,
     public sourceCode: string,
-    public parent?: TreeNode
+    public parent?: TreeNode,
+    private registry: PatternRegistry = globalRegistry
   ) {
     // Defensive check for undefined node - addresses tree-sitter race condition in CI environments
     if (!node) {
@@ -27,6 +59,7 @@ export class TreeNode implements NodeWrapper {
     }
   }
 
+  // tree-sitter indexes count UTF-16 code units, so they slice JavaScript strings directly
   get text(): string {
     return this.sourceCode.slice(this.node.startIndex, this.node.endIndex);
   }
@@ -44,18 +77,86 @@ export class TreeNode implements NodeWrapper {
   }
 
   get children(): TreeNode[] {
-    this._children ??= this.node.children.map(child => new TreeNode(child, this.sourceCode, this));
+    this._children ??= this.node.children.map(
+      child => new TreeNode(child, this.sourceCode, this, this.registry)
+    );
     return this._children;
   }
 
+  /**
+   * Children that are named in the grammar, skipping punctuation and keywords
+   */
+  get namedChildren(): TreeNode[] {
+    this._namedChildren ??= this.children.filter(child => child.isNamed);
+    return this._namedChildren;
+  }
+
+  get namedChildCount(): number {
+    return this.namedChildren.length;
+  }
+
+  // False for anonymous tokens such as `(`, `=>` or `async`
+  get isNamed(): boolean {
+    return this.node.isNamed;
+  }
+
+  // Inserted by error recovery where the source lacks a required token
+  get isMissing(): boolean {
+    return this.node.isMissing;
+  }
+
+  // Allowed anywhere by the grammar, like comments
+  get isExtra(): boolean {
+    return this.node.isExtra;
+  }
+
+  // Offsets into `sourceCode` in UTF-16 code units, as used by `text` and transforms
+  get startOffset(): number {
+    return this.node.startIndex;
+  }
+
+  get endOffset(): number {
+    return this.node.endIndex;
+  }
+
+  // Offsets in UTF-8 bytes, as used by native tools and tree-sitter edits
+  get startByte(): number {
+    return this.positions.convertOffset(this.node.startIndex);
+  }
+
+  get endByte(): number {
+    return this.positions.convertOffset(this.node.endIndex);
+  }
+
+  /**
+   * Where the node starts and ends, with offsets in both encodings and columns in
+   * both code units and code points
+   */
+  get range(): SourceRange {
+    return {
+      start: this.positions.positionAt(this.node.startIndex),
+      end: this.positions.positionAt(this.node.endIndex),
+    };
+  }
+
+  private get positions(): SourcePositions {
+    return positionsOf(this.node.tree, this.sourceCode);
+  }
+
   get line(): number {
     return this.startPosition.row + 1;
   }
 
+  // In UTF-16 code units, so a preceding `😀` counts twice
   get column(): number {
     return this.startPosition.column + 1;
   }
 
+  // In Unicode code points, as editors count them
+  get codePointColumn(): number {
+    return this.range.start.codePointColumn;
+  }
+
   get endLine(): number {
     return this.endPosition.row + 1;
   }
@@ -69,6 +170,69 @@ export class TreeNode implements NodeWrapper {
     return nameNode ? this.sourceCode.slice(nameNode.startIndex, nameNode.endIndex) : undefined;
   }
 
+  /**
+   * The grammar field this node occupies in its parent, e.g. `condition` for the
+   * test of an `if_statement`, or undefined for children without a field
+   */
+  get fieldName(): string | undefined {
+    if (this._fieldName === undefined) {
+      this.parent?.labelChildFields();
+    }
+    // Nodes wrapped outside their parent's children look theirs up directly
+    if (this._fieldName === undefined) {
+      this._fieldName = this.lookupFieldName();
+    }
+    return this._fieldName ?? undefined;
+  }
+
+  /**
+   * The child in grammar field `name`, e.g. `field('function')` for the callee of a
+   * call, or null if the field is empty
+   */
+  field(name: string): TreeNode | null {
+    return this.fields(name)[0] ?? null;
+  }
+
+  /**
+   * Every child in grammar field `name`, for fields that repeat such as the
+   * `decorator`s of a class
+   */
+  fields(name: string): TreeNode[] {
+    this.labelChildFields();
+    return this.children.filter(child => child._fieldName === name);
+  }
+
+  // Look up the field names of all children in a single pass over them
+  private labelChildFields(): void {
+    if (this._childFieldsLabelled) return;
+    this._childFieldsLabelled = true;
+
+    const { children } = this;
+    const cursor = this.node.walk();
+    if (!cursor.gotoFirstChild()) return;
+    let index = 0;
+    do {
+      const child = children[index++];
+      if (child) child._fieldName = cursor.currentFieldName || null;
+    } while (cursor.gotoNextSibling());
+  }
+
+  // `fieldNameForChild` also labels comments inside a field, so walk the parent with a cursor
+  private lookupFieldName(): string | null {
+    const parent = this.node.parent;
+    if (!parent) return null;
+
+    const cursor = parent.walk();
+    if (!cursor.gotoFirstChild()) return null;
+    do {
+      if (cursor.currentNode.id === this.node.id) {
+        return cursor.currentFieldName || null;
+      }
+    } while (cursor.gotoNextSibling());
+
+    return null;
+  }
+
   /**
    * Extract parameters from function-like nodes (functions, methods, arrow functions)
    */
@@ -84,7 +248,7 @@ export class TreeNode implements NodeWrapper {
     ) {
       const paramsNode = this.node.childForFieldName('parameters');
       if (paramsNode) {
-        const paramsWrapper = new TreeNode(paramsNode, this.sourceCode, this);
+        const paramsWrapper = new TreeNode(paramsNode, this.sourceCode, this, this.registry);
 
         // Extract formal parameters - look directly in the formal_parameters node
         for (const child of paramsWrapper.children) {
@@ -124,27 +288,10 @@ export class TreeNode implements NodeWrapper {
   }
 
   /**
-   * Check if this function-like node is async
+   * Check if this function-like node is async, as the `[async]` selector does
    */
   isAsync(): boolean {
-    if (
-      this.type === 'function_declaration' ||
-      this.type === 'function_expression' ||
-      this.type === 'method_definition' ||
-      this.type === 'arrow_function'
-    ) {
-      // Check for async modifier
-      for (const child of this.children) {
-        if (child.type === 'async' || child.text === 'async') {
-          return true;
-        }
-      }
-
-      // Also check the text content as fallback
-      return this.text.includes('async');
-    }
-
-    return false;
+    return SEMANTIC_ATTRIBUTES.get('async')?.(this) === 'true';
   }
 
   /**
@@ -163,48 +310,185 @@ export class TreeNode implements NodeWrapper {
   }
 
   // Navigation methods
-  find(pattern: string): TreeNode | null {
-    const predicate = this.parsePattern(pattern);
-    return this.findNode(predicate);
+  find(pattern: string | CompiledQuery, options: FindOptions = {}): TreeNode | null {
+    const predicate = this.parsePattern(pattern, options.strict);
+    return this.iterateMatches(predicate, { ...options, limit: 1 }).next().value ?? null;
   }
 
-  findAll(pattern: string): TreeNode[] {
-    const predicate = this.parsePattern(pattern);
-    return this.findAllNodes(predicate);
+  findAll(pattern: string | CompiledQuery, options: FindOptions = {}): TreeNode[] {
+    return [...this.iterateMatches(this.parsePattern(pattern, options.strict), options)];
   }
 
-  private findNode(predicate: NodePredicate): TreeNode | null {
-    if (predicate(this)) return this;
+  /**
+   * Lazily yield matching nodes in document order. Traversal stops as soon as the
+   * caller stops iterating, so breaking out of a `for...of` skips the rest of the tree.
+   * Strict by default, like the other newer lookups.
+   */
+  findIter(pattern: string | CompiledQuery, options: FindOptions = {}): Generator<TreeNode> {
+    // Parse eagerly so that strict pattern errors throw here rather than on first iteration
+    const predicate = this.parsePattern(pattern, options.strict ?? true);
+    return this.iterateMatches(predicate, options);
+  }
 
-    for (const child of this.children) {
-      const result = child.findNode(predicate);
-      if (result) return result;
+  // Strict by default: a misspelled pattern throws instead of counting nothing
+  count(pattern: string | CompiledQuery, options: FindOptions = {}): number {
+    const matches = this.findIter(pattern, options);
+    let total = 0;
+    while (!matches.next().done) total++;
+    return total;
+  }
+
+  // Strict by default: a misspelled pattern throws instead of never existing
+  exists(pattern: string | CompiledQuery, options: FindOptions = {}): boolean {
+    return !this.findIter(pattern, { ...options, limit: 1 }).next().done;
+  }
+
+  /**
+   * Find all matching nodes along with the nodes labelled by `@name` in the pattern,
+   * e.g. `call > member_expression@callee > property_identifier@method`
+   */
+  findAllWithCaptures(
+    pattern: string | CompiledQuery,
+    options: FindOptions = {}
+  ): CaptureMatch<TreeNode>[] {
+    const predicate = this.parsePattern(pattern, options.strict ?? true);
+    const results: CaptureMatch<TreeNode>[] = [];
+    const limit = options.limit ?? Infinity;
+
+    for (const node of this.walk(options.within)) {
+      if (results.length >= limit) break;
+
+      const captures: Captures = {};
+      if (predicate(node, captures)) {
+        results.push({ node, captures: captures as Captures<TreeNode> });
+      }
     }
 
-    return null;
+    return results;
+  }
+
+  /**
+   * Structural search with a code-shaped pattern, e.g. `console.log($MSG)` or
+   * `await Promise.all($$$ITEMS)`. `$X` binds one node, `$$$X` a node sequence,
+   * and a repeated metavariable must match identical code.
+   */
+  match(snippet: string): MatchResult<TreeNode>[] {
+    // The grammar the tree was parsed with, so the snippet is parsed the same way
+    const language = (this.node.tree as unknown as { language: unknown }).language;
+    const pattern = new CodePattern(snippet, language);
+    const results: MatchResult<TreeNode>[] = [];
+
+    for (const node of this.walk()) {
+      const bindings = pattern.match(node);
+      if (bindings) {
+        results.push({ node, bindings: bindings as Bindings<TreeNode> });
+      }
+    }
+
+    return results;
   }
 
-  private findAllNodes(predicate: NodePredicate): TreeNode[] {
-    const results: TreeNode[] = [];
+  /**
+   * Run a native tree-sitter query, e.g.
+   * `(call_expression function: (identifier) @fn (#eq? @fn "require"))`.
+   * Quantified captures (`@name+`) are listed in full in `allCaptures`
+   */
+  query(source: string): QueryMatch<TreeNode>[] {
+    if (isDetached(this.node)) {
+      throw new TreeHuggerError(
+        'query() needs a parsed tree; parse the source again instead of using TreeHugger.fromJSON()',
+        'DETACHED_TREE'
+      );
+    }
+    const language = (this.node.tree as unknown as { language: object }).language;
+    const matches = compileQuery(language, source).matches(this.node);
+
+    return matches.map(match => {
+      const captures: Captures<TreeNode> = {};
+      const allCaptures: Record<string, TreeNode[]> = {};
+      for (const capture of match.captures) {
+        const wrapped = this.wrapDescendant(capture.node);
+        if (!wrapped) continue;
+        captures[capture.name] ??= wrapped;
+        (allCaptures[capture.name] ??= []).push(wrapped);
+      }
+      return { pattern: match.pattern, captures, allCaptures };
+    });
+  }
 
-    if (predicate(this)) {
-      results.push(this);
+  /**
+   * Find the TreeNode wrapping a raw SyntaxNode within this subtree, so that
+   * parent navigation works from the result
+   */
+  private wrapDescendant(target: SyntaxNode): TreeNode | null {
+    const path: SyntaxNode[] = [];
+    let current: SyntaxNode | null = target;
+    while (current && current.id !== this.node.id) {
+      path.unshift(current);
+      current = current.parent;
     }
+    if (!current) return null;
 
-    for (const child of this.children) {
-      results.push(...child.findAllNodes(predicate));
+    return path.reduce<TreeNode | null>(
+      (wrapped, step) => wrapped?.children.find(child => child.node.id === step.id) ?? null,
+      this
+    );
+  }
+
+  private *iterateMatches(predicate: NodePredicate, options: FindOptions): Generator<TreeNode> {
+    let remaining = options.limit ?? Infinity;
+    if (remaining <= 0) return;
+
+    for (const node of this.walk(options.within)) {
+      if (!predicate(node)) continue;
+
+      yield node;
+      if (--remaining <= 0) return;
     }
+  }
 
-    return results;
+  /**
+   * Visit this node and its descendants in document order, without recursion so
+   * that deeply nested code cannot overflow the stack. Subtrees outside `within`
+   * are skipped entirely.
+   */
+  private *walk(within?: LineRange): Generator<TreeNode> {
+    const stack: TreeNode[] = [this];
+
+    for (let node = stack.pop(); node; node = stack.pop()) {
+      if (within && (node.endLine < within.startLine || node.line > within.endLine)) continue;
+
+      if (!within || (node.line >= within.startLine && node.endLine <= within.endLine)) {
+        yield node;
+      }
+
+      const { children } = node;
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push(children[i]);
+      }
+    }
   }
 
-  private parsePattern(pattern: string): NodePredicate {
+  private parsePattern(pattern: string | CompiledQuery, strict = false): NodePredicate {
+    if (typeof pattern !== 'string') return pattern.matches;
+
+    // Lenient predicates of invalid patterns match nothing, so they must not satisfy strict lookups
+    const cacheKey = `${this.registry.cacheKey}:${strict ? 'strict' : 'lenient'}:${pattern}`;
+    const cached = patternCache.get(cacheKey);
+    if (cached) return cached;
+
+    let predicate: NodePredicate;
     try {
-      return new PatternParser().parse(pattern);
-    } catch {
+      predicate = new PatternParser({ strict, registry: this.registry }).parse(pattern);
+    } catch (error) {
+      if (error instanceof PatternError) throw error;
+
       // Fallback to simple type matching for backward compatibility
-      return (node: NodeWrapper) => node.type === pattern;
+      predicate = (node: NodeWrapper) => node.type === pattern;
     }
+
+    patternCache.set(cacheKey, predicate);
+    return predicate;
   }
 
   // Common queries
@@ -258,17 +542,66 @@ export class TreeNode implements NodeWrapper {
   // React hooks
   hooks(): TreeNode[] {
     return this.findAll('call_expression').filter(call => {
-      const func = call.node.childForFieldName('function');
-      return func && func.text.startsWith('use') && /^use[A-Z]/.test(func.text);
+      const func = call.field('function');
+      return func && /^use[A-Z]/.test(func.text);
     });
   }
 
   // Parent/sibling navigation
-  getParent(type?: string): TreeNode | null {
-    let current = this.parent;
-    while (current) {
-      if (!type || current.type === type) return current;
-      current = current.parent;
+
+  /**
+   * The nearest ancestor matching `pattern`, which may use aliases and full
+   * selectors: `getParent('function')` finds the enclosing function of any kind.
+   * Without a pattern this is the direct parent.
+   */
+  getParent(pattern?: string | CompiledQuery): TreeNode | null {
+    // Lenient, as it has always been
+    return this.parent?.closest(pattern, { strict: false }) ?? null;
+  }
+
+  /**
+   * This node or its nearest ancestor matching `pattern`, like the DOM's `closest()`.
+   * Strict by default.
+   */
+  closest(
+    pattern?: string | CompiledQuery,
+    options: Pick<FindOptions, 'strict'> = {}
+  ): TreeNode | null {
+    const predicate =
+      pattern === undefined ? undefined : this.parsePattern(pattern, options.strict ?? true);
+    if (!predicate || predicate(this)) return this;
+
+    for (let current = this.parent; current; current = current.parent) {
+      if (predicate(current)) return current;
+    }
+    return null;
+  }
+
+  get nextSibling(): TreeNode | null {
+    return this.siblingAt(1);
+  }
+
+  get previousSibling(): TreeNode | null {
+    return this.siblingAt(-1);
+  }
+
+  // The next sibling that is named in the grammar, skipping punctuation and keywords
+  get nextNamedSibling(): TreeNode | null {
+    return this.siblingAt(1, true);
+  }
+
+  get previousNamedSibling(): TreeNode | null {
+    return this.siblingAt(-1, true);
+  }
+
+  private siblingAt(step: 1 | -1, named = false): TreeNode | null {
+    const siblings = this.parent?.children ?? [];
+    // Nodes wrapped outside their parent's children are found by id
+    const index = siblings.findIndex(sibling => sibling.node.id === this.node.id);
+    if (index === -1) return null;
+
+    for (let i = index + step; i >= 0 && i < siblings.length; i += step) {
+      if (!named || siblings[i].isNamed) return siblings[i];
     }
     return null;
   }
@@ -278,18 +611,35 @@ export class TreeNode implements NodeWrapper {
     return this.parent.children.filter(child => child !== this);
   }
 
-  ancestors(): TreeNode[] {
+  /**
+   * Ancestors from the parent up to the root, only those matching `pattern` if given.
+   * Strict by default.
+   */
+  ancestors(
+    pattern?: string | CompiledQuery,
+    options: Pick<FindOptions, 'strict'> = {}
+  ): TreeNode[] {
+    const predicate =
+      pattern === undefined ? undefined : this.parsePattern(pattern, options.strict ?? true);
     const result: TreeNode[] = [];
     let current = this.parent;
     while (current) {
-      result.push(current);
+      if (!predicate || predicate(current)) result.push(current);
       current = current.parent;
     }
     return result;
   }
 
-  descendants(type?: string): TreeNode[] {
-    return type ? this.findAll(type) : this.getAllDescendants();
+  /**
+   * Descendants in document order, only those matching `pattern` if given. Unlike
+   * `findAll()`, this node itself is never included, and patterns are strict by default.
+   */
+  descendants(
+    pattern?: string | CompiledQuery,
+    options: Pick<FindOptions, 'strict'> = {}
+  ): TreeNode[] {
+    if (pattern === undefined) return this.getAllDescendants();
+    return this.findAll(pattern, { strict: options.strict ?? true }).filter(node => node !== this);
   }
 
   private getAllDescendants(): TreeNode[] {
@@ -317,8 +667,45 @@ export class TreeNode implements NodeWrapper {
     return path;
   }
 
-  // Find node at specific position
-  nodeAt(line: number, column: number): TreeNode | null {
+  /**
+   * This node and everything below it in ESTree shape, with a map back to the
+   * nodes each ESTree object came from. Types ESTree has no equivalent for are
+   * listed in `unmapped`.
+   */
+  toESTree(): ESTreeConversion<TreeNode> {
+    return toESTree(this);
+  }
+
+  /**
+   * Whether `other` has the same structure and text as this node, possibly in
+   * another tree. Options relax the comparison: with all of them set, functions
+   * that differ only in names, values, comments and layout are equal.
+   */
+  equals(other: TreeNode, options: StructuralOptions = {}): boolean {
+    if (other === this) return true;
+    if (other.type !== this.type) return false;
+    return (
+      structuralKey(this.node, this.sourceCode, options) ===
+      structuralKey(other.node, other.sourceCode, options)
+    );
+  }
+
+  /**
+   * A hex hash that is the same for nodes that are `equals()` under `options`,
+   * and stable across runs, for grouping duplicate code
+   */
+  structuralHash(options: StructuralOptions = {}): string {
+    return structuralHash(this.node, this.sourceCode, options);
+  }
+
+  // Find node at specific position, with the column counted in `unit`s
+  nodeAt(line: number, column: number, unit: ColumnUnit = 'utf16'): TreeNode | null {
+    if (unit === 'codePoint') {
+      const { positions } = this;
+      if (line < 1 || line > positions.lineCount) return null;
+      const offset = positions.offsetAt(line, column, unit);
+      return this.nodeAt(line, offset - positions.offsetAt(line, 1) + 1);
+    }
     const pos = { row: line - 1, column: column - 1 };
 
     if (
@@ -0,0 +1,422 @@
+import { MatchExplanation, NodeWrapper } from './types';
+import {
+  CompiledQuery,
+  PatternParser,
+  PatternParserOptions,
+  Selector,
+  attributeValue,
+  isPositioned,
+} from './pattern-parser';
+import { PatternRegistry, globalRegistry } from './pattern-registry';
+import { SEMANTIC_ATTRIBUTES } from './semantic-attributes';
+import { getKnownFieldNames, getKnownNodeTypes } from './languages';
+import { commentsOf } from './comments';
+
+const COMBINATOR_SYMBOLS: Record<string, string> = {
+  child: ' > ',
+  descendant: ' ',
+  adjacent: ' + ',
+  sibling: ' ~ ',
+};
+
+const COMBINATOR_NAMES: Record<string, string> = {
+  child: 'child',
+  descendant: 'descendant',
+  adjacent: 'adjacent sibling',
+  sibling: 'following sibling',
+};
+
+// Pseudo-classes that position a node among its named siblings
+const POSITIONAL_PSEUDO_CLASS = /^(first|last|only|nth|nth-last)-(child|of-type)$/;
+
+/**
+ * Describe how a pattern is parsed, one selector per line with aliases expanded:
+ *
+ *   descendant: class method[async]
+ *     type class → class_declaration | class_expression | abstract_class_declaration
+ *     all of: method[async]
+ *       type method → method_definition
+ *       attribute [async] (semantic)
+ */
+export function explainPattern(
+  pattern: string | CompiledQuery,
+  options: PatternParserOptions = {}
+): string {
+  const { selector } = compile(pattern, options);
+  return describe(selector, options.registry ?? globalRegistry, '').join('\n');
+}
+
+/**
+ * Check every part of a pattern against `node` and report why each part did or
+ * did not match. Combinators are followed to the parent, ancestor or sibling
+ * that decided the outcome.
+ */
+export function debugMatch(
+  pattern: string | CompiledQuery,
+  node: NodeWrapper,
+  options: PatternParserOptions = {}
+): MatchExplanation {
+  const { selector } = compile(pattern, options);
+  const parser = new PatternParser({ ...options, strict: false });
+  return explain(selector, node, parser, options.registry ?? globalRegistry);
+}
+
+/**
+ * Render a MatchExplanation as an indented tree, e.g.
+ *
+ *   ✗ method[async] — async is not set on method_definition 'load' at line 3
+ *     ✓ method — method_definition is a method
+ *     ✗ [async] — async is not set on method_definition 'load' at line 3
+ */
+export function formatMatchExplanation(explanation: MatchExplanation, indent = ''): string {
+  const mark = explanation.matched ? '✓' : '✗';
+  return [
+    `${indent}${mark} ${explanation.selector} — ${explanation.reason}`,
+    ...explanation.steps.map(step => formatMatchExplanation(step, indent + '  ')),
+  ].join('\n');
+}
+
+/**
+ * Turn a parsed selector back into pattern syntax
+ */
+export function formatSelector(selector: Selector): string {
+  let text: string;
+
+  switch (selector.type) {
+    case 'type':
+      text = selector.value ?? '';
+      break;
+    case 'attribute':
+      text = formatAttribute(selector);
+      break;
+    case 'pseudo':
+      text =
+        selector.value === undefined ? `:${selector.name}` : `:${selector.name}(${selector.value})`;
+      break;
+    case 'combination':
+      text = (selector.selectors ?? []).map(formatSelector).join('');
+      break;
+    case 'list':
+      text = (selector.selectors ?? []).map(formatSelector).join(', ');
+      break;
+    case 'scope':
+      text = '';
+      break;
+    default: {
+      const left = selector.left ? formatSelector(selector.left) : '';
+      const right = selector.right ? formatSelector(selector.right) : '';
+      const field = selector.field ? `@${selector.field} ` : '';
+      text = `${left}${COMBINATOR_SYMBOLS[selector.type]}${field}${right}`.trim();
+    }
+  }
+
+  return selector.capture ? `${text}@${selector.capture}` : text;
+}
+
+// Lenient, so that unknown names are explained instead of thrown
+function compile(pattern: string | CompiledQuery, options: PatternParserOptions): CompiledQuery {
+  return typeof pattern === 'string'
+    ? PatternParser.compile(pattern, { ...options, strict: false })
+    : pattern;
+}
+
+function describe(selector: Selector, registry: PatternRegistry, indent: string): string[] {
+  const capture = selector.capture ? ` as @${selector.capture}` : '';
+  const lines = [`${indent}${summarize(selector, registry)}${capture}`];
+
+  const parts =
+    selector.left && selector.right ? [selector.left, selector.right] : (selector.selectors ?? []);
+  for (const part of parts) {
+    lines.push(...describe(part, registry, indent + '  '));
+  }
+  return lines;
+}
+
+function summarize(selector: Selector, registry: PatternRegistry): string {
+  const text = formatSelector({ ...selector, capture: undefined });
+
+  switch (selector.type) {
+    case 'type': {
+      const value = selector.value ?? '';
+      const alias = registry.getAlias(value);
+      if (typeof alias === 'function') return `type ${value} → custom alias`;
+      if (alias) return `type ${value} → ${alias.join(' | ')}`;
+      return getKnownNodeTypes().has(value) ? `type ${value}` : `type ${value} (unknown node type)`;
+    }
+
+    case 'attribute': {
+      const name = selector.name ?? '';
+      if (name === 'name' || name === 'text') return `attribute ${text}`;
+      if (SEMANTIC_ATTRIBUTES.has(name)) return `attribute ${text} (semantic)`;
+      if (getKnownFieldNames().has(name)) return `attribute ${text} (field)`;
+      return `attribute ${text} (unknown attribute)`;
+    }
+
+    case 'pseudo': {
+      const name = selector.name ?? '';
+      if (registry.getPseudo(name)) return `pseudo-class ${text} (custom)`;
+      if (registry.pseudoNames().includes(name)) return `pseudo-class ${text}`;
+      return `pseudo-class ${text} (unknown pseudo-class)`;
+    }
+
+    case 'combination':
+      return `all of: ${text}`;
+
+    case 'list':
+      return `any of: ${text}`;
+
+    case 'scope':
+      return 'the node tested by :has()';
+
+    default: {
+      const field = selector.field ? ` through @${selector.field}` : '';
+      return `${COMBINATOR_NAMES[selector.type]}${field}: ${text}`;
+    }
+  }
+}
+
+function explain(
+  selector: Selector,
+  node: NodeWrapper,
+  parser: PatternParser,
+  registry: PatternRegistry
+): MatchExplanation {
+  const matched = parser.compileSelector(selector)(node);
+  const result = (reason: string, steps: MatchExplanation[] = []): MatchExplanation => ({
+    selector: formatSelector(selector),
+    matched,
+    reason,
+    steps,
+  });
+  const explainPart = (part: Selector, candidate: NodeWrapper) =>
+    explain(part, candidate, parser, registry);
+
+  switch (selector.type) {
+    case 'type': {
+      const value = selector.value ?? '';
+      const alias = registry.getAlias(value);
+      if (typeof alias === 'function') {
+        return result(
+          `custom alias '${value}' ${matched ? 'accepts' : 'rejects'} ${nodeName(node)}`
+        );
+      }
+      if (alias) {
+        return result(
+          matched ? `${node.type} is a ${value}` : `${node.type} is not one of ${alias.join(', ')}`
+        );
+      }
+      const unknown = getKnownNodeTypes().has(value)
+        ? ''
+        : ` ('${value}' is not a known node type)`;
+      return result(matched ? `node type is ${value}` : `node type is ${node.type}${unknown}`);
+    }
+
+    case 'attribute': {
+      const name = selector.name ?? '';
+      const actual = attributeValue(node, name);
+      return result(
+        actual === undefined
+          ? `${name} is not set on ${nodeName(node)}`
+          : `${name} is ${preview(actual)}`
+      );
+    }
+
+    case 'pseudo':
+      return explainPseudo(selector, node, matched, result, explainPart);
+
+    case 'combination': {
+      const steps = (selector.selectors ?? []).map(part => explainPart(part, node));
+      const failed = steps.filter(step => !step.matched).map(step => step.selector);
+      return result(
+        failed.length === 0 ? 'every part matches' : `${failed.join(', ')} did not match`,
+        steps
+      );
+    }
+
+    case 'list': {
+      const steps = (selector.selectors ?? []).map(part => explainPart(part, node));
+      const first = steps.find(step => step.matched);
+      return result(first ? `${first.selector} matches` : 'no alternative matches', steps);
+    }
+
+    case 'scope':
+      return result('relative selectors are only checked within :has()');
+
+    default:
+      return explainCombinator(selector, node, result, explainPart, parser);
+  }
+}
+
+function explainCombinator(
+  selector: Selector,
+  node: NodeWrapper,
+  result: (reason: string, steps?: MatchExplanation[]) => MatchExplanation,
+  explainPart: (part: Selector, candidate: NodeWrapper) => MatchExplanation,
+  parser: PatternParser
+): MatchExplanation {
+  const { left, right, field } = selector;
+  if (!left || !right) return result('incomplete selector');
+
+  const rightStep = explainPart(right, node);
+  const steps = [rightStep];
+  const leftText = formatSelector(left);
+  // Steps are listed in pattern order, the relative's before the node's own
+  const checkRelative = (relative: NodeWrapper) => steps.unshift(explainPart(left, relative));
+
+  // The node must match the right side before its relatives are considered
+  const found = (description: string, relative: NodeWrapper) => {
+    checkRelative(relative);
+    return result(
+      rightStep.matched
+        ? `${description} ${nodeName(relative)} matches ${leftText}`
+        : rightStep.reason,
+      steps
+    );
+  };
+  const missing = (reason: string) => result(rightStep.matched ? reason : rightStep.reason, steps);
+
+  switch (selector.type) {
+    case 'child': {
+      const parent = node.parent;
+      if (!parent) return missing(`${nodeName(node)} has no parent`);
+      if (field && node.fieldName !== field) {
+        const actual = node.fieldName ? `in field @${node.fieldName}` : 'not in a field';
+        return missing(`${nodeName(node)} is ${actual}, not @${field}`);
+      }
+      if (!parser.compileSelector(left)(parent)) {
+        checkRelative(parent);
+        return missing(`parent ${nodeName(parent)} does not match ${leftText}`);
+      }
+      return found('parent', parent);
+    }
+
+    case 'descendant': {
+      const leftPredicate = parser.compileSelector(left);
+      let branch = node;
+      for (let current = node.parent; current; current = current.parent) {
+        if ((!field || branch.fieldName === field) && leftPredicate(current)) {
+          return found('ancestor', current);
+        }
+        branch = current;
+      }
+      const through = field ? ` through @${field}` : '';
+      return missing(`no ancestor matches ${leftText}${through}`);
+    }
+
+    default: {
+      const siblings = precedingSiblings(node);
+      if (siblings.length === 0) return missing(`${nodeName(node)} has no preceding sibling`);
+
+      const leftPredicate = parser.compileSelector(left);
+      // `+` looks past comments to the first other sibling
+      const previous = siblings.findIndex(sibling => !sibling.node.isExtra);
+      const candidates =
+        selector.type === 'adjacent' && previous !== -1
+          ? siblings.slice(0, previous + 1)
+          : siblings;
+      const sibling = candidates.find(candidate => leftPredicate(candidate));
+      if (sibling) return found('sibling', sibling);
+
+      if (selector.type === 'adjacent') {
+        const nearest = candidates[candidates.length - 1];
+        checkRelative(nearest);
+        return missing(`previous sibling ${nodeName(nearest)} does not match ${leftText}`);
+      }
+      return missing(`no preceding sibling matches ${leftText}`);
+    }
+  }
+}
+
+function explainPseudo(
+  selector: Selector,
+  node: NodeWrapper,
+  matched: boolean,
+  result: (reason: string, steps?: MatchExplanation[]) => MatchExplanation,
+  explainPart: (part: Selector, candidate: NodeWrapper) => MatchExplanation
+): MatchExplanation {
+  const { name = '' } = selector;
+  const [argument] = selector.selectors ?? [];
+  const argumentText = argument ? formatSelector(argument) : selector.value;
+
+  switch (name) {
+    case 'not':
+    case 'is':
+    case 'where': {
+      if (!argument) break;
+      const step = explainPart(argument, node);
+      return result(`${argumentText} ${step.matched ? 'matches' : 'does not match'}`, [step]);
+    }
+
+    case 'inside':
+    case 'closest': {
+      if (!argument) break;
+      const start = name === 'inside' ? node.parent : node;
+      for (let current = start; current; current = current.parent) {
+        const step = explainPart(argument, current);
+        if (step.matched) return result(`${nodeName(current)} matches ${argumentText}`, [step]);
+      }
+      return result(`no ancestor matches ${argumentText}`);
+    }
+
+    case 'has':
+      return result(
+        matched
+          ? `a node within ${nodeName(node)} matches ${argumentText}`
+          : `nothing within ${nodeName(node)} matches ${argumentText}`
+      );
+
+    case 'leading-comment':
+    case 'trailing-comment': {
+      const position = name === 'leading-comment' ? 'leading' : 'trailing';
+      const comments = commentsOf(node.node)[position].map(comment => preview(comment.text));
+      return result(
+        comments.length > 0
+          ? `${position} comments are ${comments.join(', ')}`
+          : `${nodeName(node)} has no ${position} comments`
+      );
+    }
+
+    case 'root':
+      return result(
+        node.parent ? `${nodeName(node)} has a parent` : `${nodeName(node)} is the root`
+      );
+
+    case 'empty':
+      return result(`${nodeName(node)} has ${matched ? 'no named children' : 'named children'}`);
+  }
+
+  if (POSITIONAL_PSEUDO_CLASS.test(name) && node.parent && isPositioned(node)) {
+    const siblings = node.parent.children.filter(isPositioned);
+    const position = siblings.findIndex(sibling => sibling.node.id === node.node.id) + 1;
+    return result(`${nodeName(node)} is named child ${position} of ${siblings.length}`);
+  }
+
+  return result(`${nodeName(node)} ${matched ? 'satisfies' : 'does not satisfy'} :${name}`);
+}
+
+// Siblings before `node`, nearest first, the way sibling combinators consider them
+function precedingSiblings(node: NodeWrapper): NodeWrapper[] {
+  const siblings = node.parent?.children ?? [];
+  const index = siblings.findIndex(sibling => sibling.node.id === node.node.id);
+  const preceding = siblings.slice(0, Math.max(index, 0)).reverse();
+  return node.node.isNamed ? preceding.filter(sibling => sibling.node.isNamed) : preceding;
+}
+
+function nodeName(node: NodeWrapper): string {
+  const name = node.name ? ` '${node.name}'` : '';
+  return `${node.type}${name} at line ${node.line}`;
+}
+
+function preview(value: string): string {
+  const line = value.replace(/\s+/g, ' ');
+  return JSON.stringify(line.length > 40 ? `${line.slice(0, 37)}...` : line);
+}
+
+function formatAttribute(selector: Selector): string {
+  const { name, operator = '=', value, flags } = selector;
+  if (value === undefined) return `[${name}]`;
+  if (selector.regex) return `[${name}${operator}/${value}/${flags ?? ''}]`;
+
+  const quoted = /^[\w-]+$/.test(value) ? value : `"${value.replace(/"/g, '\\"')}"`;
+  return `[${name}${operator}${quoted}${flags ? ` ${flags}` : ''}]`;
+}
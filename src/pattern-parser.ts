@@ -1,175 +1,337 @@
-import { NodeWrapper, NodePredicate } from './types';
+import { NodeWrapper, NodePredicate, Captures } from './types';
+import { PatternError } from './errors';
+import { SEMANTIC_ATTRIBUTES } from './semantic-attributes';
+import { codeTokens, languageOf, snippetTokens } from './code-tokens';
+import { commentsOf } from './comments';
+import { ScopeAnalyzer } from './visitor';
+import { TreeNode } from './node-wrapper';
+import { getKnownFieldNames, getKnownNodeTypes, getNamedNodeTypes } from './languages';
+import {
+  AliasDefinition,
+  PatternRegistry,
+  PseudoHandler,
+  RegisterOptions,
+  globalRegistry,
+} from './pattern-registry';
 
 export interface Selector {
-  type: 'type' | 'descendant' | 'child' | 'attribute' | 'pseudo' | 'combination';
+  type:
+    | 'type'
+    | 'descendant'
+    | 'child'
+    | 'adjacent'
+    | 'sibling'
+    | 'attribute'
+    | 'pseudo'
+    | 'combination'
+    | 'list'
+    | 'scope';
   value?: string;
   left?: Selector;
   right?: Selector;
   operator?: string;
   name?: string;
+  // Parts of a combination or list, or the parsed selector argument of a pseudo-class
+  // such as `:has()` once compiled
   selectors?: Selector[];
+  capture?: string;
+  // Grammar field the right side of a child or descendant combinator must sit in
+  field?: string;
+  // Attribute values given as /regex/ literals, and their regex or CSS (`i`) flags
+  regex?: boolean;
+  flags?: string;
 }
 
-// Intuitive aliases that map to actual tree-sitter node types
-const NODE_TYPE_ALIASES: Record<string, string[]> = {
-  // Functions
-  function: ['function_declaration', 'function_expression', 'arrow_function', 'method_definition'],
-  arrow: ['arrow_function'],
-  method: ['method_definition'],
-
-  // Classes and interfaces
-  class: ['class_declaration', 'class_expression'],
-  interface: ['interface_declaration'],
-
-  // Variables
-  variable: ['variable_declarator'],
-  const: ['lexical_declaration'],
-  let: ['lexical_declaration'],
-  var: ['variable_declaration'],
-
-  // Strings
-  string: ['string', 'template_string'],
-  template: ['template_string'],
-
-  // Loops
-  loop: [
-    'for_statement',
-    'while_statement',
-    'do_statement',
-    'for_in_statement',
-    'for_of_statement',
-  ],
-  for: ['for_statement', 'for_in_statement', 'for_of_statement'],
-  while: ['while_statement', 'do_statement'],
-
-  // Conditionals
-  condition: ['if_statement', 'switch_statement', 'ternary_expression'],
-  if: ['if_statement'],
-  switch: ['switch_statement'],
-  ternary: ['ternary_expression'],
-
-  // Imports/Exports
-  import: ['import_statement'],
-  export: ['export_statement'],
-
-  // JSX
-  jsx: ['jsx_element', 'jsx_self_closing_element', 'jsx_fragment'],
-  'jsx-element': ['jsx_element', 'jsx_self_closing_element'],
-  'jsx-attribute': ['jsx_attribute'],
-
-  // Comments
-  comment: ['comment'],
-
-  // Calls
-  call: ['call_expression'],
-  new: ['new_expression'],
-
-  // Returns
-  return: ['return_statement'],
-  throw: ['throw_statement'],
-
-  // Common patterns
-  statement: ['expression_statement', 'block_statement', 'empty_statement'],
-  block: ['block_statement', 'statement_block'],
+// Position of a selector's name (and of its argument, for pseudo-classes) in the pattern
+interface SourceSpan {
+  start: number;
+  end: number;
+  argumentStart?: number;
+  argumentEnd?: number;
+}
+
+// CSS-style combinators that relate two simple selectors
+const COMBINATORS: Record<string, 'child' | 'adjacent' | 'sibling'> = {
+  '>': 'child',
+  '+': 'adjacent',
+  '~': 'sibling',
+};
+
+/**
+ * A pattern parsed and compiled once, reusable across any number of nodes and trees
+ */
+export interface CompiledQuery {
+  pattern: string;
+  selector: Selector;
+  matches: NodePredicate;
+}
+
+/**
+ * The node a relative selector such as `:has(> return)` is anchored at, set while
+ * `:has()` tests it. `used` and `siblings` record how the argument refers to it.
+ */
+interface RelativeScope {
+  node?: NodeWrapper;
+  used: boolean;
+  siblings: boolean;
+}
+
+export interface PatternParserOptions {
+  /**
+   * Throw a PatternError for syntax errors and for unknown node types, attributes
+   * and pseudo-classes, instead of matching nothing
+   */
+  strict?: boolean;
+  /** Where custom aliases and pseudo-classes are looked up, the global registry by default */
+  registry?: PatternRegistry;
+}
+
+// Attributes computed from the node rather than read from a grammar field
+const SPECIAL_ATTRIBUTES = ['name', 'text', ...SEMANTIC_ATTRIBUTES.keys()];
+
+// Operators that compare attribute values as numbers, e.g. `[params>3]`
+const NUMERIC_OPERATORS = ['>', '>=', '<', '<='];
+
+// Frequent guesses that edit distance alone would not find
+const COMMON_MISTAKES: Record<string, string[]> = {
+  'async-function': ['function[async]', 'arrow[async]'],
+  async_function: ['function[async]', 'arrow[async]'],
+  func: ['function'],
+  str: ['string'],
+  tpl: ['template'],
+  cls: ['class'],
 };
 
+// Errors that are reported even by lenient parsing, such as an invalid regex
+const fatalErrors = new WeakSet<PatternError>();
+
+// Scope analysis behind `:unbound`, `:unused` and friends, run once per tree on first use
+const scopeAnalyses = new WeakMap<NodeWrapper, ScopeAnalyzer>();
+
 export class PatternParser {
   private pos = 0;
   private input = '';
+  private source = '';
+  // Where each selector came from in the source, for positioned error messages
+  private spans = new WeakMap<Selector, SourceSpan>();
+  // Set when parsing the argument of `:has()`, whose selectors may start with a combinator
+  private scope?: RelativeScope;
+
+  private registry: PatternRegistry;
+
+  constructor(private options: PatternParserOptions = {}) {
+    this.registry = options.registry ?? globalRegistry;
+  }
+
+  /**
+   * Register a custom alias for every pattern, e.g. `registerAlias('test-case', node => ...)`
+   * or `registerAlias('loop-body', ['statement_block'])`. Use `TreeHugger#registerAlias`
+   * to scope an alias to a single tree instead.
+   */
+  static registerAlias(name: string, definition: AliasDefinition, options?: RegisterOptions): void {
+    globalRegistry.registerAlias(name, definition, options);
+  }
+
+  /**
+   * Register a custom pseudo-class for every pattern, e.g.
+   * `registerPseudo('calls', (node, name) => ...)` for `function:calls(fetch)`
+   */
+  static registerPseudo(name: string, handler: PseudoHandler, options?: RegisterOptions): void {
+    globalRegistry.registerPseudo(name, handler, options);
+  }
+
+  static unregisterAlias(name: string): boolean {
+    return globalRegistry.unregisterAlias(name);
+  }
+
+  static unregisterPseudo(name: string): boolean {
+    return globalRegistry.unregisterPseudo(name);
+  }
+
+  /**
+   * Parse and compile a pattern once. Unlike `parse`, patterns are checked strictly
+   * by default: mistakes throw a PatternError instead of silently matching nothing.
+   */
+  static compile(pattern: string, options: PatternParserOptions = {}): CompiledQuery {
+    return new PatternParser({ strict: true, ...options }).compileRange(pattern, 0, pattern.length);
+  }
 
   parse(pattern: string): NodePredicate {
-    this.input = pattern.trim();
-    this.pos = 0;
+    return this.parseRange(pattern, 0, pattern.length)?.matches ?? (() => false);
+  }
 
+  /**
+   * Compile a selector that has already been parsed, such as one part of
+   * `CompiledQuery.selector`, on its own
+   */
+  compileSelector(selector: Selector): NodePredicate {
+    return this.compilePredicate(selector);
+  }
+
+  /**
+   * Parse the part of `source` between `start` and `end`, so that errors in nested
+   * selectors such as `:has(...)` point into the full pattern. Returns null for
+   * invalid patterns unless parsing strictly.
+   */
+  private parseRange(source: string, start: number, end: number): CompiledQuery | null {
     // Handle empty pattern
-    if (!this.input) {
-      return () => false;
+    if (!this.options.strict && !source.slice(start, end).trim()) {
+      return null;
     }
 
     try {
-      const selector = this.parseSelector();
-      return this.compilePredicate(selector);
-    } catch {
-      // Check if this might be a typo
-      const suggestions = this.getSuggestions(pattern);
-      if (suggestions.length > 0) {
-        // eslint-disable-next-line no-console
-        console.warn(`Unknown pattern '${pattern}'. Did you mean: ${suggestions.join(', ')}?`);
+      return this.compileRange(source, start, end);
+    } catch (error) {
+      if (this.options.strict || !(error instanceof PatternError) || fatalErrors.has(error)) {
+        throw error;
       }
-      // For invalid patterns, return a predicate that matches nothing
-      return () => false;
+
+      // Invalid patterns match nothing; strict mode reports them with suggestions
+      return null;
     }
   }
 
-  private getSuggestions(pattern: string): string[] {
-    const suggestions: string[] = [];
-
-    // Check for common typos
-    const lowerPattern = pattern.toLowerCase();
+  private compileRange(source: string, start: number, end: number): CompiledQuery {
+    this.source = source;
+    this.input = source.slice(0, end);
+    this.pos = start;
 
-    // Check aliases
-    for (const alias of Object.keys(NODE_TYPE_ALIASES)) {
-      if (alias.includes(lowerPattern) || lowerPattern.includes(alias)) {
-        suggestions.push(alias);
-      }
+    this.skipWhitespace();
+    if (this.pos >= this.input.length) {
+      throw this.error('Empty pattern', start);
     }
 
-    // Common mistakes
-    const commonMistakes: Record<string, string[]> = {
-      'async-function': ['function[async]', 'arrow[async]'],
-      async_function: ['function[async]', 'arrow[async]'],
-      func: ['function'],
-      str: ['string'],
-      tpl: ['template'],
-      cls: ['class'],
+    let selector = this.parseSelector();
+    if (this.scope?.used) {
+      selector = this.anchorToScope(selector);
+    }
+    return {
+      pattern: source.slice(start, end),
+      selector,
+      matches: this.compilePredicate(selector),
     };
+  }
 
-    if (commonMistakes[lowerPattern]) {
-      suggestions.push(...commonMistakes[lowerPattern]);
-    }
+  /**
+   * Build a PatternError pointing at `start..end` of the pattern, e.g.
+   *
+   *   Unknown node type 'functon' at offset 0. Did you mean: function?
+   *     functon[async]
+   *     ^^^^^^^
+   */
+  private error(
+    message: string,
+    start = this.pos,
+    end = start + 1,
+    suggestions: string[] = []
+  ): PatternError {
+    const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+    const caret = ' '.repeat(start) + '^'.repeat(Math.max(1, end - start));
+    return new PatternError(
+      `${message} at offset ${start}.${hint}\n  ${this.source}\n  ${caret}`,
+      this.source,
+      start,
+      suggestions
+    );
+  }
 
-    return suggestions.slice(0, 3); // Return top 3 suggestions
+  private spanError(message: string, selector: Selector, suggestions: string[] = []): PatternError {
+    const span = this.spans.get(selector);
+    return this.error(message, span?.start ?? 0, span?.end, suggestions);
   }
 
+  /**
+   * Parse a comma-separated selector list, which matches nodes matching any of its selectors
+   */
   private parseSelector(): Selector {
-    const selectors: Selector[] = [];
+    const selectors = [this.parseComplexSelector()];
 
-    while (this.pos < this.input.length) {
-      // Skip whitespace
+    this.skipWhitespace();
+    while (this.peek() === ',') {
+      this.pos++;
+      this.skipWhitespace();
+      selectors.push(this.parseComplexSelector());
       this.skipWhitespace();
+    }
+
+    return selectors.length === 1 ? selectors[0] : { type: 'list', selectors };
+  }
+
+  /**
+   * Parse a chain of simple selectors joined by combinators. Combinators are
+   * left-associative, so `a > b + c` reads as "c right after a b that is a child of a".
+   * Child and descendant combinators may name a grammar field with `@field`, e.g.
+   * `call_expression > @function identifier` or `if_statement @condition identifier`.
+   */
+  private parseComplexSelector(): Selector {
+    let left: Selector;
+    if (this.scope && (COMBINATORS[this.peek()] || this.peek() === '@')) {
+      // Relative selector: `> return`, `+ else_clause` or `@body return`
+      left = { type: 'scope' };
+      this.scope.used = true;
+      this.scope.siblings ||= this.peek() === '+' || this.peek() === '~';
+    } else {
+      left = this.parseSimpleSelector();
+    }
 
-      if (this.pos >= this.input.length) break;
+    while (this.pos < this.input.length) {
+      this.skipWhitespace();
+      if (this.pos >= this.input.length || this.peek() === ',') break;
 
-      // Check for combinators
-      if (this.peek() === '>') {
+      const combinator = COMBINATORS[this.peek()];
+      if (combinator) {
         this.pos++;
         this.skipWhitespace();
-        const right = this.parseSimpleSelector();
-        const left = selectors.pop();
-        if (!left) throw new Error('Invalid child combinator');
-        selectors.push({ type: 'child', left, right });
-      } else if (this.peek() === ',') {
-        this.pos++;
-        continue; // Will be handled at the end
-      } else {
-        const selector = this.parseSimpleSelector();
+      }
 
-        // Check if next is a descendant (space)
-        this.skipWhitespace();
-        if (this.pos < this.input.length && this.peek() !== '>' && this.peek() !== ',') {
-          const right = this.parseSimpleSelector();
-          selectors.push({ type: 'descendant', left: selector, right });
-        } else {
-          selectors.push(selector);
-        }
+      const fieldStart = this.pos;
+      const field = this.parseField();
+      if (field && combinator && combinator !== 'child') {
+        throw this.error(
+          'Field names can only follow a child or descendant combinator',
+          fieldStart,
+          fieldStart + field.length + 1
+        );
+      }
+
+      const right = this.parseSimpleSelector();
+      left = { type: combinator ?? 'descendant', left, right };
+      if (field) {
+        left.field = field;
+        this.spans.set(left, { start: fieldStart, end: fieldStart + field.length + 1 });
       }
     }
 
-    if (selectors.length === 1) {
-      return selectors[0];
+    return left;
+  }
+
+  /**
+   * Once part of a `:has()` argument is relative, anchor the rest too, so that in
+   * `:has(> return, throw)` the `throw` must still be a descendant
+   */
+  private anchorToScope(selector: Selector): Selector {
+    if (selector.type === 'list') {
+      return { ...selector, selectors: selector.selectors?.map(s => this.anchorToScope(s)) };
+    }
+
+    let leftmost = selector;
+    while (leftmost.left) {
+      leftmost = leftmost.left;
     }
+    if (leftmost.type === 'scope') return selector;
+
+    return { type: 'descendant', left: { type: 'scope' }, right: selector };
+  }
 
-    return { type: 'combination', selectors };
+  // `@name` before a selector, as opposed to a capture label directly after one
+  private parseField(): string | undefined {
+    if (this.peek() !== '@') return undefined;
+
+    this.pos++;
+    const field = this.parseIdentifier();
+    if (!field) throw this.error('Expected a field name after @');
+    this.skipWhitespace();
+    return field;
   }
 
   private parseSimpleSelector(): Selector {
@@ -177,8 +339,10 @@ export class PatternParser {
 
     // Parse type selector
     if (this.isIdentifierStart()) {
+      const start = this.pos;
       const type = this.parseIdentifier();
       selector = { type: 'type', value: type };
+      this.spans.set(selector, { start, end: this.pos });
     }
 
     // Parse attributes and pseudo-selectors
@@ -203,7 +367,17 @@ export class PatternParser {
     }
 
     if (!selector) {
-      throw new Error('Expected selector');
+      throw this.error(
+        this.peek() ? `Expected a selector but found '${this.peek()}'` : 'Expected a selector'
+      );
+    }
+
+    // Capture label directly after the selector, e.g. `identifier@name`
+    if (this.peek() === '@') {
+      this.pos++;
+      const capture = this.parseIdentifier();
+      if (!capture) throw this.error('Expected a capture name after @');
+      selector.capture = capture;
     }
 
     return selector;
@@ -213,52 +387,124 @@ export class PatternParser {
     this.expect('[');
     this.skipWhitespace();
 
+    const start = this.pos;
     const name = this.parseIdentifier();
+    if (!name) throw this.error('Expected an attribute name');
+    const span = { start, end: this.pos };
     this.skipWhitespace();
 
     let operator = '=';
-    let value: string | undefined;
-
     if (this.peek() === '=') {
       this.pos++;
-      value = this.parseAttributeValue();
-    } else if (this.peek() === '~' && this.peekNext() === '=') {
-      operator = '~=';
-      this.pos += 2;
-      value = this.parseAttributeValue();
-    } else if (this.peek() === '^' && this.peekNext() === '=') {
-      operator = '^=';
+    } else if (this.peek() === '!' && this.peekNext() === '=') {
+      operator = '!=';
       this.pos += 2;
-      value = this.parseAttributeValue();
-    } else if (this.peek() === '$' && this.peekNext() === '=') {
-      operator = '$=';
+    } else if (['~', '^', '$', '*'].includes(this.peek()) && this.peekNext() === '=') {
+      operator = this.peek() + '=';
       this.pos += 2;
-      value = this.parseAttributeValue();
-    } else if (this.peek() === '*' && this.peekNext() === '=') {
-      operator = '*=';
-      this.pos += 2;
-      value = this.parseAttributeValue();
+    } else if (this.peek() === '>' || this.peek() === '<') {
+      operator = this.peekNext() === '=' ? this.peek() + '=' : this.peek();
+      this.pos += operator.length;
+    } else {
+      this.expect(']');
+      return this.withSpan({ type: 'attribute', name, operator }, span);
+    }
+
+    this.skipWhitespace();
+
+    // Regex values: [name=/^use[A-Z]/] or [name!=/^_/i]
+    if ((operator === '=' || operator === '!=') && this.peek() === '/') {
+      const { source, flags } = this.parseRegex();
+      this.skipWhitespace();
+      this.expect(']');
+      return this.withSpan(
+        { type: 'attribute', name, operator, value: source, regex: true, flags },
+        span
+      );
     }
 
+    const valueStart = this.pos;
+    const value = this.parseAttributeValue();
+    if (NUMERIC_OPERATORS.includes(operator) && !/^-?\d+$/.test(value)) {
+      throw this.error(`Expected a number after '${operator}'`, valueStart, this.pos);
+    }
     this.skipWhitespace();
+
+    // CSS attribute flags: `i` for case-insensitive, `s` for case-sensitive (the default)
+    let flags: string | undefined;
+    if (/[is]/i.test(this.peek()) && /[\s\]]/.test(this.peekNext())) {
+      flags = this.peek().toLowerCase() === 'i' ? 'i' : undefined;
+      this.pos++;
+      this.skipWhitespace();
+    }
+
     this.expect(']');
 
-    return { type: 'attribute', name, operator, value };
+    return this.withSpan({ type: 'attribute', name, operator, value, flags }, span);
+  }
+
+  private parseRegex(): { source: string; flags: string } {
+    const start = this.pos;
+    this.expect('/');
+
+    let source = '';
+    let inClass = false;
+    while (this.pos < this.input.length) {
+      const char = this.peek();
+      if (char === '\\') {
+        source += char + this.peekNext();
+        this.pos += 2;
+        continue;
+      }
+      if (char === '/' && !inClass) break;
+      if (char === '[') inClass = true;
+      if (char === ']') inClass = false;
+      source += char;
+      this.pos++;
+    }
+    this.expect('/');
+
+    let flags = '';
+    while (/[a-z]/.test(this.peek())) {
+      flags += this.peek();
+      this.pos++;
+    }
+
+    try {
+      new RegExp(source, flags);
+    } catch (error) {
+      const invalid = this.error(regexErrorMessage(error), start, this.pos);
+      fatalErrors.add(invalid);
+      throw invalid;
+    }
+
+    // Global and sticky regexes keep state between tests, which would make matching flaky
+    return { source, flags: flags.replace(/[gy]/g, '') };
   }
 
   private parsePseudo(): Selector {
     this.expect(':');
+    const start = this.pos;
     const name = this.parseIdentifier();
+    if (!name) throw this.error('Expected a pseudo-class name after :');
+    const span: SourceSpan = { start, end: this.pos };
 
     // Handle pseudo-selectors with arguments
     if (this.peek() === '(') {
       this.pos++;
+      span.argumentStart = this.pos;
       const value = this.parseBalanced(')');
+      span.argumentEnd = this.pos;
       this.expect(')');
-      return { type: 'pseudo', name, value };
+      return this.withSpan({ type: 'pseudo', name, value }, span);
     }
 
-    return { type: 'pseudo', name };
+    return this.withSpan({ type: 'pseudo', name }, span);
+  }
+
+  private withSpan(selector: Selector, span: SourceSpan): Selector {
+    this.spans.set(selector, span);
+    return selector;
   }
 
   private parseAttributeValue(): string {
@@ -276,15 +522,38 @@ export class PatternParser {
   }
 
   private compilePredicate(selector: Selector): NodePredicate {
+    const predicate = this.compileSelectorPredicate(selector);
+    const { capture } = selector;
+    if (!capture) return predicate;
+
+    return (node: NodeWrapper, captures?: Captures) => {
+      if (!predicate(node, captures)) return false;
+      if (captures) captures[capture] = node;
+      return true;
+    };
+  }
+
+  private compileSelectorPredicate(selector: Selector): NodePredicate {
     switch (selector.type) {
       case 'type':
         // Check if this is an alias
         const typeValue = selector.value ?? '';
-        const aliasedTypes = NODE_TYPE_ALIASES[typeValue];
-
-        if (aliasedTypes) {
-          // Match any of the aliased types
-          return (node: NodeWrapper) => aliasedTypes.includes(node.type);
+        const alias = this.registry.getAlias(typeValue);
+
+        if (typeof alias === 'function') {
+          return (node: NodeWrapper) => alias(node);
+        } else if (alias) {
+          // Match any of the aliased types. Some, like `string` and `module`, are
+          // keywords too: those stand for the named node, not the keyword token.
+          const namedTypes = getNamedNodeTypes();
+          return (node: NodeWrapper) =>
+            alias.includes(node.type) && (node.node.isNamed || !namedTypes.has(node.type));
+        } else if (this.options.strict && !getKnownNodeTypes().has(typeValue)) {
+          throw this.spanError(
+            `Unknown node type '${typeValue}'`,
+            selector,
+            suggest(typeValue, [...this.registry.aliasNames(), ...getNamedNodeTypes()])
+          );
         } else {
           // Direct type match
           return (node: NodeWrapper) => node.type === typeValue;
@@ -296,82 +565,157 @@ export class PatternParser {
       case 'pseudo':
         return this.compilePseudoPredicate(selector);
 
-      case 'child':
-        return (node: NodeWrapper) => {
-          if (!selector.right || !selector.left) return false;
-          const rightPred = this.compilePredicate(selector.right);
-          if (!rightPred(node)) return false;
+      case 'child': {
+        if (!selector.right || !selector.left) return () => false;
+        const { field } = selector;
+        this.checkField(selector);
+        const leftPred = this.compilePredicate(selector.left);
+        const rightPred = this.compilePredicate(selector.right);
+
+        return (node: NodeWrapper, captures?: Captures) => {
+          if (!rightPred(node, captures)) return false;
 
           const parent = node.parent;
           if (!parent) return false;
+          if (field && node.fieldName !== field) return false;
 
-          const leftPred = this.compilePredicate(selector.left);
-          return leftPred(parent);
+          return leftPred(parent, captures);
         };
+      }
 
-      case 'descendant':
-        return (node: NodeWrapper) => {
-          if (!selector.right || !selector.left) return false;
-          const rightPred = this.compilePredicate(selector.right);
-          if (!rightPred(node)) return false;
+      case 'descendant': {
+        if (!selector.right || !selector.left) return () => false;
+        const { field } = selector;
+        this.checkField(selector);
+        const leftPred = this.compilePredicate(selector.left);
+        const rightPred = this.compilePredicate(selector.right);
+
+        return (node: NodeWrapper, captures?: Captures) => {
+          if (!rightPred(node, captures)) return false;
 
-          const leftPred = this.compilePredicate(selector.left);
+          // With a field, the ancestor must hold the branch leading to `node` in that field
+          let branch = node;
           let current = node.parent;
           while (current) {
-            if (leftPred(current)) return true;
+            if (
+              (!field || branch.fieldName === field) &&
+              this.tryMatch(leftPred, current, captures)
+            ) {
+              return true;
+            }
+            branch = current;
             current = current.parent;
           }
           return false;
         };
+      }
+
+      case 'adjacent':
+      case 'sibling': {
+        if (!selector.right || !selector.left) return () => false;
+        const leftPred = this.compilePredicate(selector.left);
+        const rightPred = this.compilePredicate(selector.right);
+        const adjacent = selector.type === 'adjacent';
+
+        return (node: NodeWrapper, captures?: Captures) => {
+          if (!rightPred(node, captures)) return false;
+
+          for (const sibling of this.precedingSiblings(node)) {
+            if (this.tryMatch(leftPred, sibling, captures)) return true;
+            // Comments between two siblings do not separate them
+            if (adjacent && !sibling.node.isExtra) return false;
+          }
+          return false;
+        };
+      }
 
-      case 'combination':
+      case 'combination': {
         if (!selector.selectors) return () => false;
         const predicates = selector.selectors.map(s => this.compilePredicate(s));
-        return (node: NodeWrapper) => predicates.every(p => p(node));
+        return (node: NodeWrapper, captures?: Captures) => predicates.every(p => p(node, captures));
+      }
+
+      case 'scope': {
+        const scope = this.scope;
+        return (node: NodeWrapper) => scope?.node?.node.id === node.node.id;
+      }
+
+      case 'list': {
+        if (!selector.selectors) return () => false;
+        const alternatives = selector.selectors.map(s => this.compilePredicate(s));
+        // Only the captures of the first matching alternative are kept
+        return (node: NodeWrapper, captures?: Captures) =>
+          alternatives.some(p => this.tryMatch(p, node, captures));
+      }
 
       default:
         return () => false;
     }
   }
 
+  private checkField(selector: Selector): void {
+    const { field } = selector;
+    if (this.options.strict && field && !getKnownFieldNames().has(field)) {
+      throw this.spanError(
+        `Unknown field '${field}'`,
+        selector,
+        suggest(field, getKnownFieldNames())
+      );
+    }
+  }
+
   private compileAttributePredicate(selector: Selector): NodePredicate {
-    const { name, operator, value } = selector;
+    const { name = '', operator = '=' } = selector;
+
+    if (
+      this.options.strict &&
+      !SPECIAL_ATTRIBUTES.includes(name) &&
+      !getKnownFieldNames().has(name)
+    ) {
+      throw this.spanError(
+        `Unknown attribute '${name}'`,
+        selector,
+        suggest(name, [...SPECIAL_ATTRIBUTES, ...getKnownFieldNames()])
+      );
+    }
 
-    return (node: NodeWrapper) => {
-      // Special attributes
-      if (name === 'name') {
-        const nodeName = node.name;
-        if (!nodeName) {
-          // For jsx_attribute, the name is in property_identifier child
-          if (node.type === 'jsx_attribute') {
-            // The first child should be the property_identifier
-            const firstChild = node.children[0];
-            if (firstChild && firstChild.type === 'property_identifier') {
-              return this.matchValue(firstChild.text, operator ?? '=', value);
-            }
-          }
-          return false;
-        }
-        return this.matchValue(nodeName, operator ?? '=', value);
-      }
+    // Nodes without the attribute at all also satisfy `!=`
+    if (operator === '!=') {
+      const equals = this.compileAttributePredicate({ ...selector, operator: '=' });
+      return (node: NodeWrapper) => !equals(node);
+    }
 
-      if (name === 'async') {
-        return node.text.includes('async');
-      }
+    if (name === 'code' && selector.value !== undefined && !selector.regex) {
+      return this.compileCodePredicate(selector, selector.value);
+    }
 
-      if (name === 'text') {
-        return this.matchValue(node.text, operator ?? '=', value);
-      }
+    const test = this.compileValueTest(selector);
 
-      // Field-based attributes
-      if (!name) return false;
-      const field = node.node.childForFieldName?.(name);
-      if (field) {
-        const fieldText = node.sourceCode.slice(field.startIndex, field.endIndex);
-        return this.matchValue(fieldText, operator ?? '=', value);
-      }
+    return (node: NodeWrapper) => {
+      const value = attributeValue(node, name);
+      return value !== undefined && test(value);
+    };
+  }
 
-      return false;
+  /**
+   * `[code="foo(a, b)"]` compares tokens rather than source text. The value is
+   * tokenized with the grammar of each tree it is tested against, and `^=`, `$=`
+   * and `*=` only match whole tokens: `[code*="fetch("]` does not match `refetch()`.
+   */
+  private compileCodePredicate(selector: Selector, code: string): NodePredicate {
+    const { operator = '=' } = selector;
+    const pad = ['^=', '$=', '*='].includes(operator) ? ' ' : '';
+    const tests = new Map<object, (actual: string | undefined) => boolean>();
+
+    return (node: NodeWrapper) => {
+      const language = languageOf(node.node);
+      let test = tests.get(language);
+      if (!test) {
+        const value = pad + snippetTokens(code, language).join(' ') + pad;
+        test = this.compileValueTest({ ...selector, value });
+        tests.set(language, test);
+      }
+      return test(pad + codeTokens(node.node).join(' ') + pad);
     };
   }
 
@@ -380,25 +724,350 @@ export class PatternParser {
 
     switch (name) {
       case 'has':
-        if (!value) return () => false;
-        const innerPredicate = new PatternParser().parse(value);
+        if (!value) return this.missingArgument(selector);
+        return this.compileHasPredicate(selector);
+
+      case 'inside': {
+        if (!value) return this.missingArgument(selector);
+        const ancestorPredicate = this.parseNested(selector);
+        return (node: NodeWrapper, captures?: Captures) =>
+          this.someAncestor(node.parent, ancestorPredicate, captures);
+      }
+
+      // Like DOM's Element.closest(), the node itself counts as well
+      case 'closest': {
+        if (!value) return this.missingArgument(selector);
+        const closestPredicate = this.parseNested(selector);
+        return (node: NodeWrapper, captures?: Captures) =>
+          this.someAncestor(node, closestPredicate, captures);
+      }
+
+      case 'root':
+        return (node: NodeWrapper) => !node.parent;
+
+      // Scope-aware pseudo-classes
+      case 'unbound':
+        return (node: NodeWrapper) => scopeAnalysisFor(node).resolve(node as TreeNode) === null;
+
+      case 'unused':
+        return (node: NodeWrapper) => {
+          const analyzer = scopeAnalysisFor(node);
+          return (
+            analyzer.isBinding(node as TreeNode) &&
+            analyzer.getReads(node as TreeNode).length === 0 &&
+            !this.isExported(node)
+          );
+        };
+
+      case 'references': {
+        if (!value) return this.missingArgument(selector);
+        // Uses of the declaration itself, not of parameters or variables that shadow it
+        const name = value.trim();
+        const targets = new WeakMap<ScopeAnalyzer, Set<TreeNode>>();
         return (node: NodeWrapper) => {
-          // Check if any descendant matches (not just direct children)
-          const checkDescendants = (n: NodeWrapper): boolean => {
-            if (innerPredicate(n)) return true;
-            return n.children.some(child => checkDescendants(child));
-          };
-          return node.children.some(child => checkDescendants(child));
+          if (node.text !== name) return false;
+          const analyzer = scopeAnalysisFor(node);
+          let bindings = targets.get(analyzer);
+          if (!bindings) {
+            bindings = new Set(analyzer.outermostBindings(name));
+            targets.set(analyzer, bindings);
+          }
+          const binding = analyzer.resolve(node as TreeNode);
+          return !!binding && bindings.has(binding);
+        };
+      }
+
+      case 'declared-in': {
+        if (!value) return this.missingArgument(selector);
+        const scopePredicate = this.parseNested(selector);
+        return (node: NodeWrapper, captures?: Captures) => {
+          const scope = scopeAnalysisFor(node).getDeclaringScope(node as TreeNode);
+          return !!scope && this.tryMatch(scopePredicate, scope.node, captures);
         };
+      }
+
+      // Comment pseudo-classes: `function:leading-comment(/@deprecated/)`
+      case 'leading-comment':
+      case 'trailing-comment': {
+        const test = this.compileCommentTest(selector);
+        const position = name === 'leading-comment' ? 'leading' : 'trailing';
+        return (node: NodeWrapper) =>
+          commentsOf(node.node)[position].some(comment => test(comment.text));
+      }
 
       case 'not':
-        if (!value) return () => false;
-        const notPredicate = new PatternParser().parse(value);
+        if (!value) return this.missingArgument(selector);
+        const notPredicate = this.parseNested(selector);
         return (node: NodeWrapper) => !notPredicate(node);
 
-      default:
+      // Without specificity, `:where()` is the same as `:is()`
+      case 'is':
+      case 'where': {
+        if (!value) return this.missingArgument(selector);
+        const isPredicate = this.parseNested(selector);
+        return (node: NodeWrapper, captures?: Captures) => isPredicate(node, captures);
+      }
+
+      // Positional pseudo-classes, counted over named children only
+      case 'first-child':
+        return this.compilePositionPredicate({ a: 0, b: 1 }, false, false);
+
+      case 'last-child':
+        return this.compilePositionPredicate({ a: 0, b: 1 }, true, false);
+
+      case 'only-child':
+        return (node: NodeWrapper) => this.namedSiblings(node)?.length === 1;
+
+      case 'first-of-type':
+        return this.compilePositionPredicate({ a: 0, b: 1 }, false, true);
+
+      case 'last-of-type':
+        return this.compilePositionPredicate({ a: 0, b: 1 }, true, true);
+
+      case 'nth-child':
+      case 'nth-last-child':
+      case 'nth-of-type':
+      case 'nth-last-of-type': {
+        const nth = this.parseNth(value ?? '');
+        if (!nth) {
+          if (this.options.strict) {
+            throw this.spanError(
+              `Invalid argument '${value ?? ''}' for :${name}(), expected e.g. 2, odd or 2n+1`,
+              selector
+            );
+          }
+          return () => false;
+        }
+        return this.compilePositionPredicate(
+          nth,
+          name.startsWith('nth-last-'),
+          name.endsWith('-of-type')
+        );
+      }
+
+      case 'empty':
+        return (node: NodeWrapper) => !node.children.some(isPositioned);
+
+      default: {
+        const handler = this.registry.getPseudo(name ?? '');
+        if (handler) {
+          return (node: NodeWrapper) => handler(node, value);
+        }
+
+        if (this.options.strict) {
+          throw this.spanError(
+            `Unknown pseudo-class ':${name}'`,
+            selector,
+            suggest(name ?? '', this.registry.pseudoNames())
+          );
+        }
         return () => false;
+      }
+    }
+  }
+
+  /**
+   * Test comment text against the argument of `:leading-comment()` and friends: a
+   * /regex/, plain text to search for, or nothing to accept any comment
+   */
+  private compileCommentTest(selector: Selector): (text: string) => boolean {
+    const argument = selector.value?.trim();
+    if (!argument) return () => true;
+
+    const literal = /^\/(.*)\/([a-z]*)$/s.exec(argument);
+    if (!literal) return text => text.includes(argument);
+
+    let regex: RegExp;
+    try {
+      // Global and sticky regexes keep state between tests
+      regex = new RegExp(literal[1], literal[2].replace(/[gy]/g, ''));
+    } catch (error) {
+      const invalid = this.spanError(regexErrorMessage(error), selector);
+      fatalErrors.add(invalid);
+      throw invalid;
+    }
+    return text => regex.test(text);
+  }
+
+  /**
+   * `:has()` matches when a descendant matches its argument. Relative arguments
+   * such as `> return` or `+ else_clause` are checked against the node itself,
+   * and following siblings are only searched when the argument refers to them.
+   */
+  private compileHasPredicate(selector: Selector): NodePredicate {
+    const scope: RelativeScope = { used: false, siblings: false };
+    const innerPredicate = this.parseNested(selector, scope);
+
+    return (node: NodeWrapper, captures?: Captures) => {
+      const outer = scope.node;
+      scope.node = node;
+      try {
+        const test = (candidate: NodeWrapper) => this.tryMatch(innerPredicate, candidate, captures);
+        if (node.children.some(child => this.someInSubtree(child, test))) return true;
+
+        if (!scope.siblings) return false;
+        return this.followingSiblings(node).some(sibling => this.someInSubtree(sibling, test));
+      } finally {
+        scope.node = outer;
+      }
+    };
+  }
+
+  // Exported declarations are used by other modules
+  private isExported(node: NodeWrapper): boolean {
+    const exported = SEMANTIC_ATTRIBUTES.get('exported');
+    const declaration = node.type === 'identifier' && node.parent ? node.parent : node;
+    return !!exported?.(node) || !!exported?.(declaration);
+  }
+
+  private someInSubtree(node: NodeWrapper, test: (node: NodeWrapper) => boolean): boolean {
+    return test(node) || node.children.some(child => this.someInSubtree(child, test));
+  }
+
+  private someAncestor(
+    node: NodeWrapper | undefined,
+    predicate: NodePredicate,
+    captures?: Captures
+  ): boolean {
+    for (let current = node; current; current = current.parent) {
+      if (this.tryMatch(predicate, current, captures)) return true;
     }
+    return false;
+  }
+
+  /**
+   * Compile the selector argument of a pseudo-class such as `:has(...)` with the
+   * same options, reporting errors at their position in the full pattern
+   */
+  private parseNested(selector: Selector, scope?: RelativeScope): NodePredicate {
+    const nested = new PatternParser(this.options);
+    nested.scope = scope;
+    const span = this.spans.get(selector);
+    const compiled =
+      span?.argumentStart === undefined || span.argumentEnd === undefined
+        ? nested.parseRange(selector.value ?? '', 0, selector.value?.length ?? 0)
+        : nested.parseRange(this.source, span.argumentStart, span.argumentEnd);
+
+    if (!compiled) return () => false;
+    // Keep the parsed argument, so that explainPattern() can show it
+    selector.selectors = [compiled.selector];
+    return compiled.matches;
+  }
+
+  private missingArgument(selector: Selector): NodePredicate {
+    if (this.options.strict) {
+      throw this.spanError(`:${selector.name}() requires a selector argument`, selector);
+    }
+    return () => false;
+  }
+
+  /**
+   * Run a predicate that may be tried against several candidate nodes, keeping
+   * only the captures of the candidate that actually matched.
+   */
+  private tryMatch(predicate: NodePredicate, node: NodeWrapper, captures?: Captures): boolean {
+    if (!captures) return predicate(node);
+
+    const scratch: Captures = {};
+    if (!predicate(node, scratch)) return false;
+    Object.assign(captures, scratch);
+    return true;
+  }
+
+  private compilePositionPredicate(
+    { a, b }: { a: number; b: number },
+    fromEnd: boolean,
+    ofType: boolean
+  ): NodePredicate {
+    return (node: NodeWrapper) => {
+      let candidates = this.namedSiblings(node);
+      if (!candidates) return false;
+
+      if (ofType) {
+        candidates = candidates.filter(sibling => sibling.type === node.type);
+      }
+
+      let index = candidates.findIndex(sibling => sibling.node.id === node.node.id);
+      if (fromEnd) {
+        index = candidates.length - 1 - index;
+      }
+
+      return this.matchesNth(index + 1, a, b);
+    };
+  }
+
+  /**
+   * Parse the argument of `:nth-child()` and friends: `odd`, `even`, `3`, `2n+1`, `-n+3`.
+   */
+  private parseNth(value: string): { a: number; b: number } | null {
+    const expr = value.replace(/\s+/g, '').toLowerCase();
+
+    if (expr === 'odd') return { a: 2, b: 1 };
+    if (expr === 'even') return { a: 2, b: 0 };
+
+    const match = /^(?:([+-]?\d*)n)?([+-]?\d+)?$/.exec(expr);
+    if (!expr || !match) return null;
+
+    const [, coefficient, offset] = match;
+    let a = 0;
+    if (coefficient !== undefined) {
+      a = coefficient === '' || coefficient === '+' ? 1 : coefficient === '-' ? -1 : +coefficient;
+    }
+
+    return { a, b: offset ? +offset : 0 };
+  }
+
+  private matchesNth(position: number, a: number, b: number): boolean {
+    if (a === 0) return position === b;
+    const n = (position - b) / a;
+    return Number.isInteger(n) && n >= 0;
+  }
+
+  /**
+   * The named children of `node`'s parent, or null for the root and for
+   * anonymous nodes, which have no position among named siblings. Comments
+   * can appear anywhere, so they neither count nor have a position.
+   */
+  private namedSiblings(node: NodeWrapper): NodeWrapper[] | null {
+    if (!node.parent || !isPositioned(node)) return null;
+    return node.parent.children.filter(isPositioned);
+  }
+
+  /**
+   * Siblings before `node`, nearest first. Named nodes only consider named
+   * siblings, so punctuation such as `;` or `,` never separates two statements
+   * or arguments; anonymous nodes consider every sibling. Comments are kept, so
+   * that `comment + statement` works, but `+` looks past them.
+   */
+  private precedingSiblings(node: NodeWrapper): NodeWrapper[] {
+    const siblings = node.parent?.children ?? [];
+    const index = siblings.findIndex(sibling => sibling.node.id === node.node.id);
+    if (index <= 0) return [];
+
+    const preceding = siblings.slice(0, index).reverse();
+    return node.node.isNamed ? preceding.filter(sibling => sibling.node.isNamed) : preceding;
+  }
+
+  private followingSiblings(node: NodeWrapper): NodeWrapper[] {
+    const siblings = node.parent?.children ?? [];
+    const index = siblings.findIndex(sibling => sibling.node.id === node.node.id);
+    return siblings.slice(index + 1);
+  }
+
+  private compileValueTest(selector: Selector): (actual: string | undefined) => boolean {
+    const { operator = '=', value, flags = '' } = selector;
+
+    if (selector.regex && value !== undefined) {
+      const regex = new RegExp(value, flags);
+      return actual => actual !== undefined && regex.test(actual);
+    }
+
+    if (flags.includes('i')) {
+      const expected = value?.toLowerCase();
+      return actual => this.matchValue(actual?.toLowerCase(), operator, expected);
+    }
+
+    return actual => this.matchValue(actual, operator, value);
   }
 
   private matchValue(actual: string | undefined, operator: string, expected?: string): boolean {
@@ -416,6 +1085,14 @@ export class PatternParser {
         return actual.endsWith(expected);
       case '*=':
         return actual.includes(expected);
+      case '>':
+        return +actual > +expected;
+      case '>=':
+        return +actual >= +expected;
+      case '<':
+        return +actual < +expected;
+      case '<=':
+        return +actual <= +expected;
       default:
         return false;
     }
@@ -438,7 +1115,11 @@ export class PatternParser {
 
   private expect(char: string): void {
     if (this.peek() !== char) {
-      throw new Error(`Expected '${char}' but got '${this.peek()}'`);
+      throw this.error(
+        this.peek()
+          ? `Expected '${char}' but found '${this.peek()}'`
+          : `Expected '${char}' but reached the end of the pattern`
+      );
     }
     this.pos++;
   }
@@ -507,3 +1188,97 @@ export class PatternParser {
     return result;
   }
 }
+
+/**
+ * The value an attribute selector such as `[name]`, `[async]` or `[body]` compares,
+ * or undefined when the node does not have the attribute
+ */
+export function attributeValue(node: NodeWrapper, name: string): string | undefined {
+  // Special attributes
+  if (name === 'name') {
+    if (node.name) return node.name;
+    // For jsx_attribute, the name is in the first child, a property_identifier
+    const firstChild = node.children[0];
+    if (node.type === 'jsx_attribute' && firstChild?.type === 'property_identifier') {
+      return firstChild.text;
+    }
+    return undefined;
+  }
+
+  const semantic = SEMANTIC_ATTRIBUTES.get(name);
+  if (semantic) return semantic(node);
+
+  if (name === 'text') return node.text;
+
+  // Field-based attributes
+  if (!name) return undefined;
+  const field = node.node.childForFieldName?.(name);
+  return field ? node.sourceCode.slice(field.startIndex, field.endIndex) : undefined;
+}
+
+/**
+ * Whether a node counts for positional pseudo-classes: named nodes other than
+ * comments and the grammar's other extras
+ */
+export function isPositioned(node: NodeWrapper): boolean {
+  return node.node.isNamed && !node.node.isExtra;
+}
+
+function scopeAnalysisFor(node: NodeWrapper): ScopeAnalyzer {
+  let root = node;
+  while (root.parent) root = root.parent;
+
+  let analyzer = scopeAnalyses.get(root);
+  if (!analyzer) {
+    analyzer = new ScopeAnalyzer();
+    // Patterns only ever run against TreeNodes
+    analyzer.analyze(root as TreeNode);
+    scopeAnalyses.set(root, analyzer);
+  }
+  return analyzer;
+}
+
+// V8 already starts its messages with "Invalid regular expression: "
+function regexErrorMessage(error: unknown): string {
+  const reason = (error instanceof Error ? error.message : String(error)).replace(
+    /^Invalid regular expression: /,
+    ''
+  );
+  return `Invalid regular expression: ${reason}`;
+}
+
+/**
+ * Up to three known names closest to `token`, for "Did you mean" hints
+ */
+function suggest(token: string, candidates: Iterable<string>): string[] {
+  const lower = token.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(token.length / 3));
+
+  const scored: { candidate: string; distance: number }[] = [];
+  for (const candidate of new Set(candidates)) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance <= maxDistance) {
+      scored.push({ candidate, distance });
+    }
+  }
+  scored.sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate));
+
+  const suggestions = [...(COMMON_MISTAKES[lower] ?? []), ...scored.map(s => s.candidate)];
+  return [...new Set(suggestions)].slice(0, 3); // Return top 3 suggestions
+}
+
+// Levenshtein distance between two strings
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,276 @@
+import { NodeWrapper } from './types';
+import { RegistryError } from './errors';
+import { getKnownNodeTypes } from './languages';
+
+/**
+ * What an alias stands for: a list of tree-sitter node types, or a predicate
+ * for terms that depend on more than the node type (e.g. `hook`)
+ */
+export type AliasDefinition = string[] | ((node: NodeWrapper) => boolean);
+
+/**
+ * A custom pseudo-class. `argument` is the raw text between the parentheses of
+ * `:name(...)`, or undefined when the pseudo-class is used without them.
+ */
+export type PseudoHandler = (node: NodeWrapper, argument?: string) => boolean;
+
+export interface RegisterOptions {
+  /** Replace a custom alias or pseudo-class registered earlier under the same name */
+  override?: boolean;
+}
+
+// Intuitive aliases that map to actual tree-sitter node types
+const NODE_TYPE_ALIASES = new Map<string, string[]>(
+  Object.entries({
+    // Functions
+    function: [
+      'function_declaration',
+      'function_expression',
+      'generator_function_declaration',
+      'generator_function',
+      'arrow_function',
+      'method_definition',
+    ],
+    arrow: ['arrow_function'],
+    method: ['method_definition'],
+
+    // Classes and interfaces
+    class: ['class_declaration', 'class_expression', 'abstract_class_declaration'],
+    interface: ['interface_declaration'],
+    'abstract-class': ['abstract_class_declaration'],
+
+    // TypeScript declarations
+    type: ['type_alias_declaration'],
+    enum: ['enum_declaration'],
+    namespace: ['internal_module', 'module'],
+    module: ['internal_module', 'module'],
+    declare: ['ambient_declaration'],
+    decorator: ['decorator'],
+
+    // TypeScript types
+    generic: ['type_parameter'],
+    'type-parameter': ['type_parameter'],
+    'type-annotation': ['type_annotation'],
+    as: ['as_expression'],
+    satisfies: ['satisfies_expression'],
+    'non-null': ['non_null_expression'],
+
+    // Variables
+    variable: ['variable_declarator'],
+    const: ['lexical_declaration'],
+    let: ['lexical_declaration'],
+    var: ['variable_declaration'],
+
+    // Strings
+    string: ['string', 'template_string'],
+    template: ['template_string'],
+
+    // Loops
+    loop: [
+      'for_statement',
+      'while_statement',
+      'do_statement',
+      'for_in_statement',
+      'for_of_statement',
+    ],
+    for: ['for_statement', 'for_in_statement', 'for_of_statement'],
+    while: ['while_statement', 'do_statement'],
+
+    // Conditionals
+    condition: ['if_statement', 'switch_statement', 'ternary_expression'],
+    if: ['if_statement'],
+    switch: ['switch_statement'],
+    ternary: ['ternary_expression'],
+
+    // Imports/Exports
+    import: ['import_statement'],
+    export: ['export_statement'],
+
+    // JSX
+    jsx: ['jsx_element', 'jsx_self_closing_element', 'jsx_fragment'],
+    'jsx-element': ['jsx_element', 'jsx_self_closing_element'],
+    'jsx-attribute': ['jsx_attribute'],
+
+    // Comments
+    comment: ['comment'],
+
+    // Calls
+    call: ['call_expression'],
+    new: ['new_expression'],
+
+    // Returns
+    return: ['return_statement'],
+    throw: ['throw_statement'],
+
+    // Common patterns
+    statement: ['expression_statement', 'block_statement', 'empty_statement'],
+    block: ['block_statement', 'statement_block'],
+  })
+);
+
+// Pseudo-classes understood by the pattern parser itself
+const BUILTIN_PSEUDO_CLASSES = [
+  'has',
+  'not',
+  'is',
+  'where',
+  'inside',
+  'closest',
+  'root',
+  'unbound',
+  'unused',
+  'references',
+  'declared-in',
+  'leading-comment',
+  'trailing-comment',
+  'first-child',
+  'last-child',
+  'only-child',
+  'first-of-type',
+  'last-of-type',
+  'nth-child',
+  'nth-last-child',
+  'nth-of-type',
+  'nth-last-of-type',
+  'empty',
+];
+
+// Names must be valid pattern identifiers to be usable at all
+const NAME = /^[a-zA-Z_][a-zA-Z0-9_-]*$/;
+
+let nextRegistryId = 0;
+
+/**
+ * Aliases and pseudo-classes available to patterns. Registries form a chain:
+ * a TreeHugger instance gets its own registry on top of the global one, so
+ * instance-scoped definitions never leak into other trees.
+ */
+export class PatternRegistry {
+  private aliases = new Map<string, AliasDefinition>();
+  private pseudos = new Map<string, PseudoHandler>();
+  private readonly id = nextRegistryId++;
+  private revision = 0;
+
+  constructor(private parent?: PatternRegistry) {}
+
+  registerAlias(name: string, definition: AliasDefinition, options: RegisterOptions = {}): void {
+    this.checkName(name, 'alias');
+
+    if (NODE_TYPE_ALIASES.has(name)) {
+      throw new RegistryError(`'${name}' is a built-in alias and cannot be redefined`, name);
+    }
+    if (!options.override && this.getAlias(name)) {
+      throw new RegistryError(
+        `Alias '${name}' is already registered. Pass { override: true } to replace it.`,
+        name
+      );
+    }
+    if (getKnownNodeTypes().has(name)) {
+      throw new RegistryError(`Alias '${name}' would hide the node type of the same name`, name);
+    }
+
+    if (Array.isArray(definition)) {
+      if (definition.length === 0) {
+        throw new RegistryError(`Alias '${name}' must map to at least one node type`, name);
+      }
+      const unknown = definition.find(type => !getKnownNodeTypes().has(type));
+      if (unknown) {
+        throw new RegistryError(`Alias '${name}' refers to unknown node type '${unknown}'`, name);
+      }
+    }
+
+    this.aliases.set(name, definition);
+    this.revision++;
+  }
+
+  registerPseudo(name: string, handler: PseudoHandler, options: RegisterOptions = {}): void {
+    this.checkName(name, 'pseudo-class');
+
+    if (BUILTIN_PSEUDO_CLASSES.includes(name)) {
+      throw new RegistryError(
+        `':${name}' is a built-in pseudo-class and cannot be redefined`,
+        name
+      );
+    }
+    if (!options.override && this.getPseudo(name)) {
+      throw new RegistryError(
+        `Pseudo-class ':${name}' is already registered. Pass { override: true } to replace it.`,
+        name
+      );
+    }
+
+    this.pseudos.set(name, handler);
+    this.revision++;
+  }
+
+  /**
+   * Remove a custom alias from this registry. Returns false if it was not registered here.
+   */
+  unregisterAlias(name: string): boolean {
+    const removed = this.aliases.delete(name);
+    if (removed) this.revision++;
+    return removed;
+  }
+
+  /**
+   * Remove a custom pseudo-class from this registry. Returns false if it was not registered here.
+   */
+  unregisterPseudo(name: string): boolean {
+    const removed = this.pseudos.delete(name);
+    if (removed) this.revision++;
+    return removed;
+  }
+
+  getAlias(name: string): AliasDefinition | undefined {
+    return this.aliases.get(name) ?? this.parent?.getAlias(name) ?? NODE_TYPE_ALIASES.get(name);
+  }
+
+  getPseudo(name: string): PseudoHandler | undefined {
+    return this.pseudos.get(name) ?? this.parent?.getPseudo(name);
+  }
+
+  /**
+   * Every alias visible from this registry, built-in ones included
+   */
+  aliasNames(): string[] {
+    const names = new Set(this.parent ? this.parent.aliasNames() : NODE_TYPE_ALIASES.keys());
+    this.aliases.forEach((_, name) => names.add(name));
+    return [...names];
+  }
+
+  /**
+   * Every pseudo-class visible from this registry, built-in ones included
+   */
+  pseudoNames(): string[] {
+    const names = new Set(this.parent ? this.parent.pseudoNames() : BUILTIN_PSEUDO_CLASSES);
+    this.pseudos.forEach((_, name) => names.add(name));
+    return [...names];
+  }
+
+  /**
+   * Identifies the current definitions of this registry and its parents, so
+   * compiled patterns can be cached until something is (un)registered. A
+   * registry without definitions of its own compiles patterns exactly like its
+   * parent, so the trees it belongs to share the parent's cached patterns.
+   */
+  get cacheKey(): string {
+    const hasOwn = this.aliases.size > 0 || this.pseudos.size > 0;
+    if (this.parent && !hasOwn) return this.parent.cacheKey;
+    const own = `${this.id}.${this.revision}`;
+    return this.parent ? `${this.parent.cacheKey}/${own}` : own;
+  }
+
+  private checkName(name: string, kind: string): void {
+    if (!NAME.test(name)) {
+      throw new RegistryError(
+        `Invalid ${kind} name '${name}': use letters, digits, '-' and '_'`,
+        name
+      );
+    }
+  }
+}
+
+/**
+ * The registry used by patterns that are not scoped to a TreeHugger instance
+ */
+export const globalRegistry = new PatternRegistry();
@@ -0,0 +1,169 @@
+import { Tree } from 'tree-sitter';
+import { ColumnUnit, OffsetEncoding, SourcePosition } from './types';
+
+// Position tables by tree, computed once per tree on first use
+const tables = new WeakMap<Tree, SourcePositions>();
+
+/**
+ * Converts between the offsets and line/column positions of one source text.
+ * Offsets are UTF-16 code units unless stated otherwise, matching tree-sitter's
+ * `startIndex`/`endIndex` and `String#slice`.
+ */
+export class SourcePositions {
+  // UTF-16 offset and UTF-8 byte offset where each line starts
+  private lineStarts: number[] = [0];
+  private lineStartBytes: number[] = [0];
+
+  constructor(private source: string) {
+    let bytes = 0;
+    for (let offset = 0; offset < source.length; ) {
+      const codePoint = source.codePointAt(offset) ?? 0;
+      const width = codePoint > 0xffff ? 2 : 1;
+      offset += width;
+      bytes += utf8Length(codePoint);
+      if (codePoint === 0x0a) {
+        this.lineStarts.push(offset);
+        this.lineStartBytes.push(bytes);
+      }
+    }
+  }
+
+  get lineCount(): number {
+    return this.lineStarts.length;
+  }
+
+  /**
+   * The position at a UTF-16 `offset`, between 0 and the source length. Offsets
+   * between the halves of a surrogate pair throw a RangeError.
+   */
+  positionAt(offset: number): SourcePosition {
+    this.checkOffset(offset);
+    const index = lastAtOrBefore(this.lineStarts, offset);
+    const lineStart = this.lineStarts[index];
+
+    let byteOffset = this.lineStartBytes[index];
+    let codePoints = 0;
+    for (let i = lineStart; i < offset; ) {
+      const codePoint = this.source.codePointAt(i) ?? 0;
+      i += codePoint > 0xffff ? 2 : 1;
+      byteOffset += utf8Length(codePoint);
+      codePoints++;
+    }
+
+    return {
+      offset,
+      byteOffset,
+      line: index + 1,
+      column: offset - lineStart + 1,
+      codePointColumn: codePoints + 1,
+    };
+  }
+
+  /**
+   * The UTF-16 offset of a 1-based line and column, with the column counted in
+   * `unit`s. Columns past the end of a line are clamped to it.
+   */
+  offsetAt(line: number, column: number, unit: ColumnUnit = 'utf16'): number {
+    if (!Number.isInteger(line) || line < 1 || line > this.lineStarts.length) {
+      throw new RangeError(`Line ${line} is outside 1-${this.lineStarts.length}`);
+    }
+    if (!Number.isInteger(column) || column < 1) {
+      throw new RangeError(`Column ${column} must be a positive integer`);
+    }
+
+    const lineStart = this.lineStarts[line - 1];
+    const lineEnd = line < this.lineStarts.length ? this.lineStarts[line] - 1 : this.source.length;
+    if (unit === 'utf16') return Math.min(lineStart + column - 1, lineEnd);
+
+    let offset = lineStart;
+    for (let i = 1; i < column && offset < lineEnd; i++) {
+      offset += (this.source.codePointAt(offset) ?? 0) > 0xffff ? 2 : 1;
+    }
+    return offset;
+  }
+
+  /**
+   * Convert a UTF-16 offset to a UTF-8 byte offset, or back with `from: 'utf8'`.
+   * Byte offsets inside a multi-byte character throw a RangeError.
+   */
+  convertOffset(offset: number, from: OffsetEncoding = 'utf16'): number {
+    if (from === 'utf16') return this.positionAt(offset).byteOffset;
+
+    const totalBytes = this.positionAt(this.source.length).byteOffset;
+    if (!Number.isInteger(offset) || offset < 0 || offset > totalBytes) {
+      throw new RangeError(`Byte offset ${offset} is outside 0-${totalBytes}`);
+    }
+
+    const index = lastAtOrBefore(this.lineStartBytes, offset);
+    let bytes = this.lineStartBytes[index];
+    let result = this.lineStarts[index];
+    while (bytes < offset) {
+      const codePoint = this.source.codePointAt(result) ?? 0;
+      bytes += utf8Length(codePoint);
+      result += codePoint > 0xffff ? 2 : 1;
+    }
+    if (bytes !== offset) {
+      throw new RangeError(`Byte offset ${offset} falls inside a multi-byte character`);
+    }
+    return result;
+  }
+
+  private checkOffset(offset: number): void {
+    if (!Number.isInteger(offset) || offset < 0 || offset > this.source.length) {
+      throw new RangeError(`Offset ${offset} is outside 0-${this.source.length}`);
+    }
+    if (splitsSurrogatePair(this.source, offset)) {
+      throw new RangeError(`Offset ${offset} falls inside a surrogate pair`);
+    }
+  }
+}
+
+/**
+ * The shared position table of a parsed tree and its source
+ */
+export function positionsOf(tree: Tree, source: string): SourcePositions {
+  let positions = tables.get(tree);
+  if (!positions) {
+    positions = new SourcePositions(source);
+    tables.set(tree, positions);
+  }
+  return positions;
+}
+
+/**
+ * Whether `offset` falls between the two halves of a surrogate pair, where
+ * slicing would leave broken characters on both sides
+ */
+function splitsSurrogatePair(source: string, offset: number): boolean {
+  return (
+    isHighSurrogate(source.charCodeAt(offset - 1)) && isLowSurrogate(source.charCodeAt(offset))
+  );
+}
+
+// Lone surrogates are encoded as U+FFFD, like `Buffer.byteLength` does
+function utf8Length(codePoint: number): number {
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff;
+}
+
+// Index of the last entry not greater than `value` in an ascending array
+function lastAtOrBefore(values: number[], value: number): number {
+  let low = 0;
+  let high = values.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (values[middle] <= value) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
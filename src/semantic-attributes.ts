@@ -0,0 +1,205 @@
+import { SyntaxNode } from 'tree-sitter';
+import { NodeWrapper } from './types';
+import { codeTokens } from './code-tokens';
+
+/**
+ * Computes an attribute of a node for selectors such as `[async]` or `[params>3]`.
+ * Flags yield 'true' when set, numbers their decimal string, and undefined means
+ * the node does not have the attribute at all.
+ */
+type AttributeGetter = (node: NodeWrapper) => string | undefined;
+
+const FUNCTION_TYPES = new Set([
+  'function_declaration',
+  'function_expression',
+  'generator_function_declaration',
+  'generator_function',
+  'arrow_function',
+  'method_definition',
+]);
+
+const METHOD_TYPES = new Set([
+  'method_definition',
+  'method_signature',
+  'abstract_method_signature',
+]);
+
+const CLASS_MEMBER_TYPES = new Set([
+  ...METHOD_TYPES,
+  'field_definition',
+  'public_field_definition',
+  'property_signature',
+]);
+
+// Signatures declare parameters without being functions themselves
+const PARAMETER_OWNER_TYPES = new Set([
+  ...FUNCTION_TYPES,
+  ...METHOD_TYPES,
+  'function_signature',
+  'call_signature',
+  'construct_signature',
+]);
+
+// Statements that add a nesting level, as counted by ESLint's max-depth rule
+const NESTING_TYPES = new Set([
+  'if_statement',
+  'for_statement',
+  'for_in_statement',
+  'for_of_statement',
+  'while_statement',
+  'do_statement',
+  'switch_statement',
+  'try_statement',
+  'with_statement',
+]);
+
+export const SEMANTIC_ATTRIBUTES = new Map<string, AttributeGetter>(
+  Object.entries({
+    async: node => flag(FUNCTION_TYPES.has(node.type) && hasToken(node.node, 'async')),
+
+    generator: node =>
+      flag(
+        node.type === 'generator_function_declaration' ||
+          node.type === 'generator_function' ||
+          (METHOD_TYPES.has(node.type) && hasToken(node.node, '*'))
+      ),
+
+    static: node => flag(hasToken(node.node, 'static')),
+
+    abstract: node => flag(hasToken(node.node, 'abstract')),
+
+    readonly: node => flag(hasToken(node.node, 'readonly')),
+
+    // Optional parameters and members (`x?: T`) and optional chains (`a?.b`)
+    optional: node =>
+      flag(
+        node.type === 'optional_parameter' ||
+          (CLASS_MEMBER_TYPES.has(node.type) && hasToken(node.node, '?')) ||
+          node.node.children.some(child => child.type === 'optional_chain')
+      ),
+
+    exported: node => flag(exportStatement(node.node) !== null),
+
+    'default-export': node => {
+      const statement = exportStatement(node.node);
+      return flag(statement !== null && hasToken(statement, 'default'));
+    },
+
+    // Class members are public unless marked otherwise or named with a `#`
+    visibility: node => {
+      const modifier = node.node.children.find(child => child.type === 'accessibility_modifier');
+      if (modifier) return modifier.text;
+      if (!CLASS_MEMBER_TYPES.has(node.type)) return undefined;
+
+      const name = node.node.childForFieldName('name');
+      return name?.type === 'private_property_identifier' ? 'private' : 'public';
+    },
+
+    kind: node => {
+      if (!METHOD_TYPES.has(node.type)) return undefined;
+      if (hasToken(node.node, 'get')) return 'get';
+      if (hasToken(node.node, 'set')) return 'set';
+      return node.name === 'constructor' ? 'constructor' : 'method';
+    },
+
+    params: node => {
+      if (!PARAMETER_OWNER_TYPES.has(node.type)) return undefined;
+
+      const parameters = node.node.childForFieldName('parameters');
+      if (parameters) {
+        return String(parameters.namedChildren.filter(child => child.type !== 'comment').length);
+      }
+      // Arrow functions with a single unparenthesized parameter: `x => x`
+      return node.node.childForFieldName('parameter') ? '1' : '0';
+    },
+
+    // Type parameters, as in `function f<T>()` or `class Box<T>`
+    generic: node => flag(node.node.childForFieldName('type_parameters') !== null),
+
+    // The superclass of a class, the interfaces an interface extends, or the constraint
+    // of a type parameter (`T extends object`)
+    extends: node => {
+      const heritage = childOfType(node.node, 'class_heritage');
+      if (heritage) {
+        const clause = heritage.namedChildren[0];
+        if (!clause || clause.type === 'implements_clause') return undefined;
+        // In JavaScript, `extends` is followed directly by the superclass expression
+        return clause.type === 'extends_clause'
+          ? clause.childForFieldName('value')?.text
+          : clause.text;
+      }
+
+      const interfaces = childOfType(node.node, 'extends_type_clause');
+      if (interfaces) return typeList(interfaces);
+
+      return node.node.childForFieldName('constraint')?.namedChildren[0]?.text;
+    },
+
+    implements: node => {
+      const heritage = childOfType(node.node, 'class_heritage');
+      const clause = heritage && childOfType(heritage, 'implements_clause');
+      return clause ? typeList(clause) : undefined;
+    },
+
+    // The annotated type of a parameter, variable or member, or the type asserted by `as`
+    // and `satisfies`, without the colon: `[type="string"]`
+    type: node => {
+      if (node.type === 'as_expression' || node.type === 'satisfies_expression') {
+        return node.node.namedChildren[1]?.text;
+      }
+
+      const type = node.node.childForFieldName('type');
+      if (!type) return undefined;
+      return type.type.endsWith('type_annotation') ? type.namedChildren[0]?.text : type.text;
+    },
+
+    // Source code normalized to its tokens, separated by single spaces
+    code: node => codeTokens(node.node).join(' '),
+
+    lines: node => String(node.endPosition.row - node.startPosition.row + 1),
+
+    // Nested control flow statements within the enclosing function, including the node itself
+    depth: node => {
+      let depth = 0;
+      for (let current: SyntaxNode | null = node.node; current; current = current.parent) {
+        if (FUNCTION_TYPES.has(current.type)) break;
+        // `else if` continues a chain rather than nesting deeper
+        if (NESTING_TYPES.has(current.type) && current.parent?.type !== 'else_clause') depth++;
+      }
+      return String(depth);
+    },
+  })
+);
+
+function flag(value: boolean): string | undefined {
+  return value ? 'true' : undefined;
+}
+
+// Keywords such as `async` or `static` are anonymous children of the node they modify
+function hasToken(node: SyntaxNode, token: string): boolean {
+  return node.children.some(child => !child.isNamed && child.type === token);
+}
+
+function childOfType(node: SyntaxNode, type: string): SyntaxNode | undefined {
+  return node.namedChildren.find(child => child.type === type);
+}
+
+// `A, B` for the types listed in `implements A, B` or `extends A, B`
+function typeList(clause: SyntaxNode): string {
+  return clause.namedChildren
+    .filter(child => child.type !== 'comment')
+    .map(child => child.text)
+    .join(', ');
+}
+
+/**
+ * The export statement that declares `node`, if any. Variable declarators are
+ * exported through their declaration: `export const a = 1, b = 2`.
+ */
+function exportStatement(node: SyntaxNode): SyntaxNode | null {
+  if (!node.isNamed) return null;
+
+  const declaration = node.type === 'variable_declarator' ? node.parent : node;
+  const parent = declaration?.parent;
+  return parent?.type === 'export_statement' ? parent : null;
+}
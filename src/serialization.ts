@@ -0,0 +1,359 @@
+import { Point, SyntaxNode, Tree } from 'tree-sitter';
+import {
+  DeserializeOptions,
+  Language,
+  SerializeOptions,
+  SerializedNode,
+  SerializedTree,
+} from './types';
+import { getLanguageByName } from './languages';
+import { positionsOf } from './positions';
+import { LanguageError, ParseError } from './errors';
+
+const FORMAT_VERSION = 1;
+
+// Bits of a serialized node's flags
+const NAMED = 1;
+const MISSING = 2;
+const EXTRA = 4;
+
+/**
+ * Serialize a parsed tree without recursion, so that deeply nested code cannot
+ * overflow the stack
+ */
+export function serializeTree(
+  root: SyntaxNode,
+  language: string,
+  source: string,
+  options: SerializeOptions = {}
+): SerializedTree {
+  const types = new NameTable();
+  const fields = new NameTable();
+  // The children arrays of the nodes being visited, innermost last
+  const open: SerializedNode[][] = [];
+  let serialized: SerializedNode | undefined;
+
+  const cursor = root.walk();
+  for (;;) {
+    const node = cursor.currentNode;
+    const field = cursor.currentFieldName;
+    const flags =
+      (node.isNamed ? NAMED : 0) | (node.isMissing ? MISSING : 0) | (node.isExtra ? EXTRA : 0);
+    const entry: SerializedNode = [
+      types.index(node.type),
+      flags,
+      node.startIndex,
+      node.endIndex,
+      field ? fields.index(field) : -1,
+    ];
+
+    if (open.length > 0) open[open.length - 1].push(entry);
+    else serialized = entry;
+
+    if (cursor.gotoFirstChild()) {
+      entry[5] = [];
+      open.push(entry[5]);
+      continue;
+    }
+    while (!cursor.gotoNextSibling()) {
+      if (!cursor.gotoParent()) {
+        return {
+          format: 'tree-hugger',
+          version: FORMAT_VERSION,
+          language,
+          ...(options.text === false ? {} : { source }),
+          types: types.names,
+          fields: fields.names,
+          root: serialized as SerializedNode,
+        };
+      }
+      open.pop();
+    }
+  }
+}
+
+/**
+ * Rebuild a serialized tree as detached nodes, which answer the same questions
+ * as the nodes of a parsed tree without needing the parser
+ */
+export function deserializeTree(
+  json: SerializedTree | string,
+  options: DeserializeOptions = {}
+): { tree: Tree; source: string; language: Language } {
+  const data = typeof json === 'string' ? parseJSON(json) : json;
+  if (data?.format !== 'tree-hugger' || data.version !== FORMAT_VERSION) {
+    throw new ParseError(
+      `Unsupported serialized tree: expected tree-hugger format version ${FORMAT_VERSION}`
+    );
+  }
+
+  const language = getLanguageByName(data.language);
+  if (!language) {
+    throw new LanguageError(`Unknown language: ${data.language}`);
+  }
+
+  const source = options.source ?? data.source;
+  if (source === undefined) {
+    throw new ParseError('Serialized tree has no source text; pass it as the source option');
+  }
+  if (source.length < data.root[3]) {
+    throw new ParseError(
+      `Source text has length ${source.length} but the serialized tree covers ${data.root[3]}`
+    );
+  }
+
+  const tree = new DetachedTree(language.parser as object, source);
+  tree.rootNode = buildNodes(tree, data);
+  return { tree: tree as unknown as Tree, source, language };
+}
+
+/**
+ * Whether `node` belongs to a tree rehydrated from JSON rather than parsed
+ */
+export function isDetached(node: SyntaxNode): boolean {
+  return node.tree instanceof DetachedTree;
+}
+
+function parseJSON(json: string): SerializedTree {
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new ParseError(
+      `Invalid serialized tree: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function buildNodes(tree: DetachedTree, data: SerializedTree): DetachedNode {
+  let nextId = 0;
+  const create = ([type, flags, start, end, field]: SerializedNode, parent: DetachedNode | null) =>
+    new DetachedNode(
+      tree,
+      nextId++,
+      data.types[type],
+      flags,
+      start,
+      end,
+      field === -1 ? null : data.fields[field],
+      parent
+    );
+
+  const root = create(data.root, null);
+  const pending: [SerializedNode, DetachedNode][] = [[data.root, root]];
+  for (let next = pending.pop(); next; next = pending.pop()) {
+    const [entry, node] = next;
+    for (const child of entry[5] ?? []) {
+      const detached = create(child, node);
+      node.children.push(detached);
+      pending.push([child, detached]);
+    }
+  }
+  return root;
+}
+
+// Names stored once and referred to by index
+class NameTable {
+  names: string[] = [];
+  private indexes = new Map<string, number>();
+
+  index(name: string): number {
+    let index = this.indexes.get(name);
+    if (index === undefined) {
+      index = this.names.push(name) - 1;
+      this.indexes.set(name, index);
+    }
+    return index;
+  }
+}
+
+class DetachedTree {
+  rootNode!: DetachedNode;
+
+  constructor(
+    public language: object,
+    public source: string
+  ) {}
+}
+
+/**
+ * The parts of tree-sitter's `SyntaxNode` that tree-hugger relies on, backed by
+ * serialized data
+ */
+class DetachedNode {
+  children: DetachedNode[] = [];
+  private _hasError?: boolean;
+
+  constructor(
+    public tree: DetachedTree,
+    public id: number,
+    public type: string,
+    private flags: number,
+    public startIndex: number,
+    public endIndex: number,
+    public fieldName: string | null,
+    public parent: DetachedNode | null
+  ) {}
+
+  get text(): string {
+    return this.tree.source.slice(this.startIndex, this.endIndex);
+  }
+
+  get startPosition(): Point {
+    return this.point(this.startIndex);
+  }
+
+  get endPosition(): Point {
+    return this.point(this.endIndex);
+  }
+
+  get isNamed(): boolean {
+    return (this.flags & NAMED) !== 0;
+  }
+
+  get isMissing(): boolean {
+    return (this.flags & MISSING) !== 0;
+  }
+
+  get isExtra(): boolean {
+    return (this.flags & EXTRA) !== 0;
+  }
+
+  get hasError(): boolean {
+    this._hasError ??=
+      this.type === 'ERROR' || this.isMissing || this.children.some(child => child.hasError);
+    return this._hasError;
+  }
+
+  get childCount(): number {
+    return this.children.length;
+  }
+
+  get namedChildren(): DetachedNode[] {
+    return this.children.filter(child => child.isNamed);
+  }
+
+  get namedChildCount(): number {
+    return this.namedChildren.length;
+  }
+
+  get firstChild(): DetachedNode | null {
+    return this.children[0] ?? null;
+  }
+
+  get lastChild(): DetachedNode | null {
+    return this.children[this.children.length - 1] ?? null;
+  }
+
+  get firstNamedChild(): DetachedNode | null {
+    return this.namedChildren[0] ?? null;
+  }
+
+  get lastNamedChild(): DetachedNode | null {
+    const named = this.namedChildren;
+    return named[named.length - 1] ?? null;
+  }
+
+  get nextSibling(): DetachedNode | null {
+    return this.sibling(1);
+  }
+
+  get previousSibling(): DetachedNode | null {
+    return this.sibling(-1);
+  }
+
+  get nextNamedSibling(): DetachedNode | null {
+    return this.sibling(1, true);
+  }
+
+  get previousNamedSibling(): DetachedNode | null {
+    return this.sibling(-1, true);
+  }
+
+  child(index: number): DetachedNode | null {
+    return this.children[index] ?? null;
+  }
+
+  namedChild(index: number): DetachedNode | null {
+    return this.namedChildren[index] ?? null;
+  }
+
+  childForFieldName(name: string): DetachedNode | null {
+    return this.children.find(child => child.fieldName === name) ?? null;
+  }
+
+  childrenForFieldName(name: string): DetachedNode[] {
+    return this.children.filter(child => child.fieldName === name);
+  }
+
+  descendantsOfType(types: string | string[]): DetachedNode[] {
+    const wanted = new Set(Array.isArray(types) ? types : [types]);
+    const result: DetachedNode[] = [];
+    const stack = [...this.children].reverse();
+    for (let node = stack.pop(); node; node = stack.pop()) {
+      if (wanted.has(node.type)) result.push(node);
+      for (let i = node.children.length - 1; i >= 0; i--) stack.push(node.children[i]);
+    }
+    return result;
+  }
+
+  walk(): DetachedCursor {
+    return new DetachedCursor(this);
+  }
+
+  equals(other: { id: number; tree: unknown }): boolean {
+    return other.tree === this.tree && other.id === this.id;
+  }
+
+  // S-expression of the named nodes, like tree-sitter's
+  toString(): string {
+    const named = this.namedChildren;
+    const inner = named.map(child =>
+      child.fieldName ? `${child.fieldName}: ${child.toString()}` : child.toString()
+    );
+    return `(${[this.type, ...inner].join(' ')})`;
+  }
+
+  private point(offset: number): Point {
+    const tree = this.tree as unknown as Tree;
+    const position = positionsOf(tree, this.tree.source).positionAt(offset);
+    return { row: position.line - 1, column: position.column - 1 };
+  }
+
+  private sibling(step: 1 | -1, named = false): DetachedNode | null {
+    const siblings = this.parent?.children ?? [];
+    for (let i = siblings.indexOf(this) + step; i >= 0 && i < siblings.length; i += step) {
+      if (!named || siblings[i].isNamed) return siblings[i];
+    }
+    return null;
+  }
+}
+
+// A tree cursor that cannot leave the node it was created on
+class DetachedCursor {
+  constructor(
+    private root: DetachedNode,
+    public currentNode: DetachedNode = root
+  ) {}
+
+  get currentFieldName(): string {
+    return this.currentNode === this.root ? '' : (this.currentNode.fieldName ?? '');
+  }
+
+  gotoFirstChild(): boolean {
+    return this.move(this.currentNode.firstChild);
+  }
+
+  gotoNextSibling(): boolean {
+    return this.currentNode !== this.root && this.move(this.currentNode.nextSibling);
+  }
+
+  gotoParent(): boolean {
+    return this.currentNode !== this.root && this.move(this.currentNode.parent);
+  }
+
+  private move(node: DetachedNode | null): boolean {
+    if (!node) return false;
+    this.currentNode = node;
+    return true;
+  }
+}
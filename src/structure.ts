@@ -0,0 +1,102 @@
+import { createHash } from 'crypto';
+import { SyntaxNode } from 'tree-sitter';
+import { StructuralOptions } from './types';
+
+// Nodes whose text is their value, compared as a whole
+const LITERAL_TYPES = new Set(['string', 'number', 'regex', 'true', 'false', 'null', 'undefined']);
+
+// The literal text between substitutions of a template string
+const TEMPLATE_TEXT_TYPES = new Set(['string_fragment', 'escape_sequence']);
+
+/**
+ * A canonical description of a node's structure: node types, token text and,
+ * unless ignored, the whitespace between tokens. Two nodes have the same key
+ * exactly when they are equal under `options`.
+ */
+export function structuralKey(
+  node: SyntaxNode,
+  source: string,
+  options: StructuralOptions = {}
+): string {
+  const parts: string[] = [];
+  // Where the previous token ended, and the whitespace since then
+  let previousEnd = -1;
+  let gap = '';
+
+  const token = (current: SyntaxNode, description: string) => {
+    if (!options.ignoreWhitespace && previousEnd !== -1) {
+      parts.push(`~${JSON.stringify(gap + source.slice(previousEnd, current.startIndex))}`);
+    }
+    parts.push(description);
+    previousEnd = current.endIndex;
+    gap = '';
+  };
+
+  // Iterate rather than recurse, so that deeply nested code cannot overflow the stack
+  const cursor = node.walk();
+  let depth = 0;
+  for (;;) {
+    const current = cursor.currentNode;
+    let descend = false;
+
+    if (current.type === 'comment' && options.ignoreComments) {
+      if (previousEnd !== -1) gap += source.slice(previousEnd, current.startIndex);
+      previousEnd = current.endIndex;
+    } else if (isLiteral(current)) {
+      token(current, options.ignoreLiterals ? `(${current.type})` : describe(current, options));
+    } else if (current.childCount > 0) {
+      parts.push(`(${current.type}`);
+      descend = true;
+    } else if (current.startIndex !== current.endIndex) {
+      // Zero-width tokens are inserted by error recovery or automatic semicolons
+      const text = leafText(current, options);
+      if (text) token(current, describe(current, options, text));
+    }
+
+    if (descend && cursor.gotoFirstChild()) {
+      depth++;
+      continue;
+    }
+    while (depth === 0 || !cursor.gotoNextSibling()) {
+      if (depth === 0) return parts.join(' ');
+      cursor.gotoParent();
+      depth--;
+      parts.push(')');
+    }
+  }
+}
+
+/**
+ * A hash of `structuralKey()`, stable across runs and machines, for grouping
+ * equal code across files
+ */
+export function structuralHash(
+  node: SyntaxNode,
+  source: string,
+  options: StructuralOptions = {}
+): string {
+  return createHash('sha1')
+    .update(structuralKey(node, source, options))
+    .digest('hex');
+}
+
+function isLiteral(node: SyntaxNode): boolean {
+  return (
+    LITERAL_TYPES.has(node.type) ||
+    (TEMPLATE_TEXT_TYPES.has(node.type) && node.parent?.type === 'template_string')
+  );
+}
+
+function leafText(node: SyntaxNode, options: StructuralOptions): string {
+  if (node.type === 'jsx_text' && options.ignoreWhitespace) {
+    return node.text.trim().replace(/\s+/g, ' ');
+  }
+  return node.text;
+}
+
+// Anonymous tokens are their text; named nodes add their type
+function describe(node: SyntaxNode, options: StructuralOptions, text = node.text): string {
+  if (!node.isNamed) return JSON.stringify(text);
+  if (options.ignoreIdentifiers && node.type.endsWith('identifier')) return `(${node.type})`;
+  return `(${node.type} ${JSON.stringify(text)})`;
+}
@@ -1,6 +1,13 @@
 import { TreeNode } from './node-wrapper';
 import { TransformError } from './errors';
-
+import { OffsetEncoding } from './types';
+import { positionsOf } from './positions';
+
+/**
+ * Replace the source between `start` and `end` with `text`. Offsets count UTF-16
+ * code units, like tree-sitter indexes and `String#slice`, unless the edit came
+ * from `getEdits('utf8')`.
+ */
 export interface Edit {
   start: number;
   end: number;
@@ -393,9 +400,19 @@ export class Transform {
     }
   }
 
-  // Get the edits without applying them
-  getEdits(): Edit[] {
-    return [...this.edits];
+  /**
+   * Get the edits without applying them, with offsets in UTF-16 code units or, for
+   * tools that work on encoded files, in UTF-8 bytes
+   */
+  getEdits(encoding: OffsetEncoding = 'utf16'): Edit[] {
+    if (encoding === 'utf16') return [...this.edits];
+
+    const positions = positionsOf(this.root.node.tree, this.sourceCode);
+    return this.edits.map(edit => ({
+      ...edit,
+      start: positions.convertOffset(edit.start),
+      end: positions.convertOffset(edit.end),
+    }));
   }
 
   private isStatement(node: TreeNode): boolean {
@@ -1,19 +1,51 @@
 import Parser from 'tree-sitter';
 import { readFileSync } from 'fs';
-import { TreeHuggerOptions, FunctionInfo, ClassInfo } from './types';
+import {
+  TreeHuggerOptions,
+  FunctionInfo,
+  ClassInfo,
+  CaptureMatch,
+  MatchResult,
+  QueryMatch,
+  FindOptions,
+  MatchExplanation,
+  ColumnUnit,
+  Language,
+  SerializeOptions,
+  SerializedTree,
+  DeserializeOptions,
+  ESTreeConversion,
+} from './types';
 import { detectLanguage, getLanguageByName } from './languages';
 import { TreeNode } from './node-wrapper';
 import { Transform } from './transform';
+import { CompiledQuery } from './pattern-parser';
+import { debugMatch, explainPattern } from './pattern-debug';
+import {
+  AliasDefinition,
+  PatternRegistry,
+  PseudoHandler,
+  RegisterOptions,
+  globalRegistry,
+} from './pattern-registry';
 import { ParseError, LanguageError } from './errors';
 import { ScopeAnalyzer, Visitor, VisitorFunction } from './visitor';
+import { SourcePositions, positionsOf } from './positions';
+import { deserializeTree, serializeTree } from './serialization';
 
 export class TreeHugger {
   private parser: Parser;
   private tree: Parser.Tree;
   private sourceCode: string;
+  private language: Language;
+  // Aliases and pseudo-classes registered on this instance only
+  private registry = new PatternRegistry(globalRegistry);
   public root: TreeNode;
 
-  constructor(sourceCode: string, options: TreeHuggerOptions = {}) {
+  /**
+   * Parse `sourceCode`, or wrap `tree` when it has already been parsed or rehydrated
+   */
+  constructor(sourceCode: string, options: TreeHuggerOptions = {}, tree?: Parser.Tree) {
     this.parser = new Parser();
     this.sourceCode = sourceCode;
 
@@ -28,17 +60,18 @@ export class TreeHugger {
         : 'Could not detect language. Please specify language option.';
       throw new LanguageError(message, sourceCode.slice(0, 100));
     }
+    this.language = language;
 
     try {
       this.parser.setLanguage(language.parser);
-      this.tree = this.parser.parse(sourceCode);
+      this.tree = tree ?? this.parser.parse(sourceCode);
 
       // Don't throw on syntax errors - tree-sitter can handle partial parsing
       // Users can check tree.root.hasError if they want to know about errors
 
       // Robust rootNode initialization with retry mechanism for CI environments
       const rootNode = this.getRootNodeWithRetry(this.tree, 3);
-      this.root = new TreeNode(rootNode, sourceCode);
+      this.root = new TreeNode(rootNode, sourceCode, undefined, this.registry);
     } catch (error) {
       if (error instanceof ParseError || error instanceof LanguageError) throw error;
       throw new ParseError(
@@ -92,12 +125,68 @@ export class TreeHugger {
   }
 
   // Delegate common methods to root
-  find(pattern: string): TreeNode | null {
-    return this.root.find(pattern);
+  find(pattern: string | CompiledQuery, options?: FindOptions): TreeNode | null {
+    return this.root.find(pattern, options);
+  }
+
+  findAll(pattern: string | CompiledQuery, options?: FindOptions): TreeNode[] {
+    return this.root.findAll(pattern, options);
+  }
+
+  findIter(pattern: string | CompiledQuery, options?: FindOptions): Generator<TreeNode> {
+    return this.root.findIter(pattern, options);
+  }
+
+  count(pattern: string | CompiledQuery, options?: FindOptions): number {
+    return this.root.count(pattern, options);
+  }
+
+  exists(pattern: string | CompiledQuery, options?: FindOptions): boolean {
+    return this.root.exists(pattern, options);
+  }
+
+  findAllWithCaptures(
+    pattern: string | CompiledQuery,
+    options?: FindOptions
+  ): CaptureMatch<TreeNode>[] {
+    return this.root.findAllWithCaptures(pattern, options);
+  }
+
+  match(snippet: string): MatchResult<TreeNode>[] {
+    return this.root.match(snippet);
+  }
+
+  query(source: string): QueryMatch<TreeNode>[] {
+    return this.root.query(source);
+  }
+
+  /**
+   * Register an alias that only patterns searched in this tree can use,
+   * on top of the built-in and globally registered ones
+   */
+  registerAlias(name: string, definition: AliasDefinition, options?: RegisterOptions): void {
+    this.registry.registerAlias(name, definition, options);
+  }
+
+  /**
+   * Register a pseudo-class that only patterns searched in this tree can use
+   */
+  registerPseudo(name: string, handler: PseudoHandler, options?: RegisterOptions): void {
+    this.registry.registerPseudo(name, handler, options);
   }
 
-  findAll(pattern: string): TreeNode[] {
-    return this.root.findAll(pattern);
+  /**
+   * Show how a pattern is parsed, with this tree's aliases expanded
+   */
+  explainPattern(pattern: string | CompiledQuery): string {
+    return explainPattern(pattern, { registry: this.registry });
+  }
+
+  /**
+   * Explain, part by part, why a pattern does or does not match `node`
+   */
+  debugMatch(pattern: string | CompiledQuery, node: TreeNode): MatchExplanation {
+    return debugMatch(pattern, node, { registry: this.registry });
   }
 
   functions(): TreeNode[] {
@@ -149,9 +238,17 @@ export class TreeHugger {
     return analyzer;
   }
 
-  // Find node at position
-  nodeAt(line: number, column: number): TreeNode | null {
-    return this.root.nodeAt(line, column);
+  // Find node at position, with the column counted in `unit`s
+  nodeAt(line: number, column: number, unit?: ColumnUnit): TreeNode | null {
+    return this.root.nodeAt(line, column, unit);
+  }
+
+  /**
+   * Conversions between UTF-16 offsets, UTF-8 byte offsets and line/column
+   * positions in this source
+   */
+  get positions(): SourcePositions {
+    return positionsOf(this.tree, this.sourceCode);
   }
 
   // Enhanced analysis methods that return structured data
@@ -206,6 +303,29 @@ export class TreeHugger {
   transform(): Transform {
     return new Transform(this.root, this.sourceCode);
   }
+
+  // The whole program as an ESTree `Program`, for tools built on ESTree
+  toESTree(): ESTreeConversion<TreeNode> {
+    return this.root.toESTree();
+  }
+
+  /**
+   * The tree as plain JSON, for sending to another thread or caching. Called by
+   * `JSON.stringify(tree)`.
+   */
+  toJSON(options: SerializeOptions = {}): SerializedTree {
+    return serializeTree(this.tree.rootNode, this.language.name, this.sourceCode, options);
+  }
+
+  /**
+   * Rehydrate a tree from `toJSON()` output without parsing again. Queries,
+   * navigation, analysis and transforms work as on the original tree; only
+   * `query()` needs a parsed tree.
+   */
+  static fromJSON(json: SerializedTree | string, options: DeserializeOptions = {}): TreeHugger {
+    const { tree, source, language } = deserializeTree(json, options);
+    return new TreeHugger(source, { language: language.name }, tree);
+  }
 }
 
 // Main entry point functions
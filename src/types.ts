@@ -11,6 +11,82 @@ export interface TreeHuggerOptions {
   autoDetect?: boolean;
 }
 
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+export interface FindOptions {
+  // Throw a PatternError for invalid patterns instead of matching nothing
+  strict?: boolean;
+  // Stop searching after this many matches
+  limit?: number;
+  // Only match nodes that lie entirely within these (1-based, inclusive) lines
+  within?: LineRange;
+}
+
+/**
+ * A location in source code in every unit callers may need. Offsets and columns
+ * from tree-sitter, like JavaScript strings and the Language Server Protocol, count
+ * UTF-16 code units; editors count code points, and native tools count UTF-8 bytes.
+ * `😀` is two code units, one code point and four bytes.
+ */
+export interface SourcePosition {
+  // UTF-16 code units from the start of the source, as used by `String#slice`
+  offset: number;
+  // UTF-8 bytes from the start of the source
+  byteOffset: number;
+  // 1-based
+  line: number;
+  // 1-based, in UTF-16 code units
+  column: number;
+  // 1-based, in Unicode code points
+  codePointColumn: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// How offsets are counted: UTF-16 code units or UTF-8 bytes
+export type OffsetEncoding = 'utf16' | 'utf8';
+
+// How columns are counted: UTF-16 code units or Unicode code points
+export type ColumnUnit = 'utf16' | 'codePoint';
+
+/**
+ * A parsed tree as plain JSON, produced by `TreeHugger#toJSON()`. Type and field
+ * names are stored once in `types` and `fields`; nodes refer to them by index.
+ */
+export interface SerializedTree {
+  format: 'tree-hugger';
+  version: 1;
+  language: string;
+  // The parsed source, unless serialized with `{ text: false }`
+  source?: string;
+  types: string[];
+  fields: string[];
+  root: SerializedNode;
+}
+
+/**
+ * `[type, flags, startOffset, endOffset, field, children?]`, with offsets in
+ * UTF-16 code units and `field` -1 for nodes outside a field. Flags add up
+ * 1 for named nodes, 2 for missing ones and 4 for extras.
+ */
+export type SerializedNode = [number, number, number, number, number, SerializedNode[]?];
+
+export interface SerializeOptions {
+  // Include the source text, so that the tree can be rehydrated on its own (default true)
+  text?: boolean;
+}
+
+export interface DeserializeOptions {
+  // The source text, for trees serialized without it
+  source?: string;
+}
+
 export interface NodeWrapper {
   node: SyntaxNode;
   text: string;
@@ -21,17 +97,93 @@ export interface NodeWrapper {
   parent?: NodeWrapper;
   sourceCode: string;
   name?: string;
+  fieldName?: string;
   line: number;
   column: number;
   endLine: number;
   hasError: boolean;
 }
 
+// Nodes labelled with `@name` in a pattern, keyed by label
+export type Captures<T extends NodeWrapper = NodeWrapper> = Record<string, T>;
+
 export interface QueryResult extends NodeWrapper {
   captures?: Record<string, NodeWrapper>;
 }
 
-export type NodePredicate = (node: NodeWrapper) => boolean;
+// A node found by `findAllWithCaptures()` and the nodes its pattern labelled
+export interface CaptureMatch<T extends NodeWrapper = NodeWrapper> {
+  node: T;
+  captures: Captures<T>;
+}
+
+// A match of a tree-sitter S-expression query: the index of the query pattern
+// that matched and its captured nodes. `captures` holds the first node of each
+// name; `allCaptures` every node, so quantified captures (`@name+`) keep them all
+export interface QueryMatch<T extends NodeWrapper = NodeWrapper> {
+  pattern: number;
+  captures: Captures<T>;
+  allCaptures: Record<string, T[]>;
+}
+
+// Metavariables bound by a code pattern: `$X` binds a node, `$$$X` a node sequence
+export type Bindings<T extends NodeWrapper = NodeWrapper> = Record<string, T | T[]>;
+
+export interface MatchResult<T extends NodeWrapper = NodeWrapper> {
+  node: T;
+  bindings: Bindings<T>;
+}
+
+// How one part of a pattern fared against a node, as reported by debugMatch()
+export interface MatchExplanation {
+  // The part of the pattern, e.g. `method[async]`
+  selector: string;
+  matched: boolean;
+  reason: string;
+  // The parts it is made of, and the parts checked against related nodes
+  steps: MatchExplanation[];
+}
+
+// What structural comparison and hashing disregard; by default nodes must match exactly
+export interface StructuralOptions {
+  // Spacing, line breaks and indentation between tokens
+  ignoreWhitespace?: boolean;
+  ignoreComments?: boolean;
+  // The names of identifiers of every kind, so that renamed code still matches
+  ignoreIdentifiers?: boolean;
+  // The values of literals; a string still differs from a number
+  ignoreLiterals?: boolean;
+}
+
+// An ESTree position: 1-based line, 0-based column in UTF-16 code units
+export interface ESTreePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * A node in ESTree (or TS-ESTree) shape, with the usual `loc` and `range`.
+ * Other properties depend on `type`.
+ */
+export interface ESTreeNode {
+  type: string;
+  loc: { start: ESTreePosition; end: ESTreePosition };
+  range: [number, number];
+  [key: string]: unknown;
+}
+
+export interface ESTreeConversion<T extends NodeWrapper = NodeWrapper> {
+  ast: ESTreeNode;
+  // The node every ESTree object was made from
+  treeNodes: Map<ESTreeNode, T>;
+  // Nodes without an ESTree equivalent, kept in the AST as `UnmappedNode`s
+  unmapped: T[];
+  // `Line` and `Block` comments in document order, also set on `Program` as `comments`
+  comments: ESTreeNode[];
+}
+
+// Predicates fill `captures` with the labelled nodes when one is passed and the node matches
+export type NodePredicate = (node: NodeWrapper, captures?: Captures) => boolean;
 export type NodeTransformer = (node: NodeWrapper) => NodeWrapper | null;
 
 // Standard data structures returned by analysis methods
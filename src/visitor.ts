@@ -117,9 +117,22 @@ export interface Scope {
 export class ScopeAnalyzer {
   private scopes = new Map<TreeNode, Scope>();
   private currentScope: Scope | null = null;
+  // Identifiers that introduce a name, mapped to the node recorded as the binding
+  private declarationSites = new Map<TreeNode, TreeNode>();
+  private bindingScopes = new Map<TreeNode, Scope>();
+  // Identifiers that use a name, mapped to their binding, or null for globals
+  private resolutions = new Map<TreeNode, TreeNode | null>();
+  private reads = new Map<TreeNode, TreeNode[]>();
+  // Destructuring declarators, mapped to the separate binding of each name they declare
+  private destructured = new Map<TreeNode, TreeNode[]>();
 
   analyze(root: TreeNode): Map<TreeNode, Scope> {
     this.scopes.clear();
+    this.declarationSites.clear();
+    this.bindingScopes.clear();
+    this.resolutions.clear();
+    this.reads.clear();
+    this.destructured.clear();
 
     // Create root scope
     const rootScope: Scope = {
@@ -132,6 +145,13 @@ export class ScopeAnalyzer {
 
     visit(root, {
       enter: node => {
+        // Declarations are visible in the scope around them
+        if (DECLARATION_TYPES.includes(node.type)) {
+          const name = node.node.childForFieldName('name');
+          const identifier = node.children.find(child => child.node.id === name?.id);
+          if (identifier) this.declare(identifier, node);
+        }
+
         if (this.createsScope(node)) {
           const scope: Scope = {
             node,
@@ -144,22 +164,42 @@ export class ScopeAnalyzer {
 
         // Track variable declarations
         if (node.type === 'variable_declarator') {
-          const name = node.name;
-          if (name && this.currentScope) {
-            this.currentScope.bindings.set(name, node);
+          const name = node.children.find(child => child.fieldName === 'name');
+          if (name?.type === 'identifier') {
+            this.declare(name, node);
+          } else if (name && this.currentScope) {
+            const identifiers = this.patternIdentifiers(name);
+            identifiers.forEach(identifier => this.declare(identifier));
+            this.destructured.set(node, identifiers);
+            this.bindingScopes.set(node, this.currentScope);
           }
         }
 
         // Track function parameters
-        if (node.type === 'formal_parameters' && this.currentScope) {
-          // Look for parameter nodes which might be identifiers or patterns
-          const params = node.findAll('identifier');
-          params.forEach(param => {
-            if (param.text) {
-              this.currentScope?.bindings.set(param.text, param);
-            }
+        if (node.type === 'formal_parameters') {
+          node.children.forEach(param => {
+            this.patternIdentifiers(param).forEach(identifier => this.declare(identifier));
           });
         }
+
+        // `x => x`, `for (const x of xs)` and `catch (error)`
+        const declaredField = DECLARED_FIELDS[node.type];
+        const declared = declaredField && node.children.find(c => c.fieldName === declaredField);
+        if (declared && (node.type !== 'for_in_statement' || node.node.childForFieldName('kind'))) {
+          this.patternIdentifiers(declared).forEach(identifier => this.declare(identifier));
+        }
+
+        // `import a, { b as c } from 'x'` and `import * as ns from 'x'`
+        if (node.type === 'import_specifier') {
+          const [imported, local = imported] = node.children.filter(c => c.type === 'identifier');
+          if (local) this.declare(local, node);
+          if (imported && imported !== local) this.declarationSites.set(imported, node);
+        }
+        if (node.type === 'import_clause' || node.type === 'namespace_import') {
+          node.children
+            .filter(child => child.type === 'identifier')
+            .forEach(identifier => this.declare(identifier));
+        }
       },
       exit: node => {
         if (this.createsScope(node) && this.currentScope) {
@@ -168,6 +208,22 @@ export class ScopeAnalyzer {
       },
     });
 
+    // With every declaration known, hoisted and later ones included, resolve the uses
+    visit(root, node => {
+      if (!this.isReferenceCandidate(node) || this.declarationSites.has(node)) return;
+
+      const binding = this.findBinding(node, node.text);
+      this.resolutions.set(node, binding);
+
+      // Assigning to a variable does not read it
+      const isWrite = node.fieldName === 'left' && node.parent?.type === 'assignment_expression';
+      if (binding && !isWrite) {
+        const reads = this.reads.get(binding) ?? [];
+        reads.push(node);
+        this.reads.set(binding, reads);
+      }
+    });
+
     return this.scopes;
   }
 
@@ -206,4 +262,119 @@ export class ScopeAnalyzer {
 
     return null;
   }
+
+  /**
+   * The binding an identifier refers to, null for names declared nowhere in the
+   * file (globals), or undefined if the node is not a reference at all
+   */
+  resolve(node: TreeNode): TreeNode | null | undefined {
+    return this.resolutions.get(node);
+  }
+
+  /**
+   * Identifiers that read a binding. Accepts the binding itself, such as a
+   * `variable_declarator`, or the identifier declaring it.
+   */
+  getReads(node: TreeNode): TreeNode[] {
+    const binding = this.declarationSites.get(node) ?? node;
+    const bindings = this.destructured.get(binding) ?? [binding];
+    return bindings.flatMap(b => this.reads.get(b) ?? []);
+  }
+
+  /**
+   * The scope a binding, or the binding a reference resolves to, is declared in
+   */
+  getDeclaringScope(node: TreeNode): Scope | undefined {
+    const binding = this.declarationSites.get(node) ?? this.resolutions.get(node) ?? node;
+    return this.bindingScopes.get(binding);
+  }
+
+  /**
+   * The bindings of `name` that no enclosing scope also binds, leaving out
+   * parameters and variables that shadow an outer declaration
+   */
+  outermostBindings(name: string): TreeNode[] {
+    const result: TreeNode[] = [];
+    for (const scope of this.scopes.values()) {
+      const binding = scope.bindings.get(name);
+      if (!binding) continue;
+
+      let shadowed = false;
+      for (let outer = scope.parent; outer && !shadowed; outer = outer.parent) {
+        shadowed = outer.bindings.has(name);
+      }
+      if (!shadowed) result.push(binding);
+    }
+    return result;
+  }
+
+  isBinding(node: TreeNode): boolean {
+    return this.bindingScopes.has(node) || this.declarationSites.has(node);
+  }
+
+  private declare(identifier: TreeNode, binding = identifier): void {
+    if (!this.currentScope) return;
+
+    this.currentScope.bindings.set(identifier.text, binding);
+    this.declarationSites.set(identifier, binding);
+    this.bindingScopes.set(binding, this.currentScope);
+  }
+
+  /**
+   * The identifiers a destructuring pattern or parameter declares, leaving out
+   * default values and property keys: `{ a, b: c = d, ...e }` declares a, c and e
+   */
+  private patternIdentifiers(node: TreeNode): TreeNode[] {
+    switch (node.type) {
+      case 'identifier':
+      case 'shorthand_property_identifier_pattern':
+        return [node];
+      case 'object_pattern':
+      case 'array_pattern':
+      case 'rest_pattern':
+        return node.children.flatMap(child => this.patternIdentifiers(child));
+      case 'pair_pattern':
+        return this.fieldIdentifiers(node, 'value');
+      case 'assignment_pattern':
+      case 'object_assignment_pattern':
+        return this.fieldIdentifiers(node, 'left');
+      case 'required_parameter':
+      case 'optional_parameter':
+        return this.fieldIdentifiers(node, 'pattern');
+      default:
+        return [];
+    }
+  }
+
+  private fieldIdentifiers(node: TreeNode, field: string): TreeNode[] {
+    const child = node.children.find(c => c.fieldName === field);
+    return child ? this.patternIdentifiers(child) : [];
+  }
+
+  private isReferenceCandidate(node: TreeNode): boolean {
+    if (node.type === 'shorthand_property_identifier') return true;
+    if (node.type !== 'identifier') return false;
+
+    // `export { a as b }` names the export, not a variable
+    if (node.parent?.type === 'export_specifier' && node.fieldName === 'alias') return false;
+
+    // Lowercase JSX tags such as <div> are elements, not variables
+    const isTagName = node.parent?.type.startsWith('jsx_') && node.fieldName === 'name';
+    return !(isTagName && /^[a-z]/.test(node.text));
+  }
 }
+
+// Declarations whose name is bound in the enclosing scope
+const DECLARATION_TYPES = [
+  'function_declaration',
+  'generator_function_declaration',
+  'class_declaration',
+  'abstract_class_declaration',
+];
+
+// Fields holding the names a node declares in its own scope
+const DECLARED_FIELDS: Record<string, string> = {
+  arrow_function: 'parameter',
+  for_in_statement: 'left',
+  catch_clause: 'parameter',
+};
@@ -0,0 +1,119 @@
+import { PatternError } from '../src';
+import { createTree, getNodeText } from './helpers/test-utils';
+
+describe('CodePattern', () => {
+  describe('single metavariables', () => {
+    it('should bind $X to a single node', () => {
+      const tree = createTree(`
+        console.log('start');
+        console.log(user.name);
+        console.error('failed');
+      `);
+
+      const matches = tree.match('console.log($MSG)');
+      expect(getNodeText(matches.map(m => m.node))).toEqual([
+        "console.log('start')",
+        'console.log(user.name)',
+      ]);
+      expect(matches.map(m => (m.bindings.MSG as { text: string }).text)).toEqual([
+        "'start'",
+        'user.name',
+      ]);
+    });
+
+    it('should ignore whitespace, comments and semicolons', () => {
+      const tree = createTree(
+        `
+        if (ready) { return   value; }
+        if (done) {
+          // nothing left to do
+          return result
+        }
+      `,
+        'javascript'
+      );
+
+      const matches = tree.match('if ($A) { return $B }');
+      expect(matches).toHaveLength(2);
+      expect(matches.map(m => (m.bindings.B as { text: string }).text)).toEqual([
+        'value',
+        'result',
+      ]);
+    });
+
+    it('should require repeated metavariables to match identical code', () => {
+      const tree = createTree('const a = x + x; const b = x + y;');
+      const matches = tree.match('$A + $A');
+      expect(getNodeText(matches.map(m => m.node))).toEqual(['x + x']);
+    });
+
+    it('should match anything without binding for $_', () => {
+      const tree = createTree('const a = x + y;', 'javascript');
+      const matches = tree.match('$_ + $_');
+      expect(matches).toHaveLength(1);
+      expect(matches[0].bindings).toEqual({});
+    });
+  });
+
+  describe('multi metavariables', () => {
+    it('should bind $$$X to a node sequence', () => {
+      const tree = createTree(`
+        async function load() {
+          await Promise.all([a(), b()]);
+          await Promise.all(first, second, third);
+          await Promise.all();
+        }
+      `);
+
+      const matches = tree.match('await Promise.all($$$ITEMS)');
+      expect(matches).toHaveLength(3);
+
+      const items = matches.map(m => (m.bindings.ITEMS as { text: string }[]).map(n => n.text));
+      expect(items).toEqual([['[a(), b()]'], ['first', 'second', 'third'], []]);
+    });
+
+    it('should combine sequences with fixed nodes', () => {
+      const tree = createTree('emit(a, b, done); emit(done); emit(a, b);', 'javascript');
+      const matches = tree.match('emit($$$ARGS, done)');
+      expect(getNodeText(matches.map(m => m.node))).toEqual(['emit(a, b, done)']);
+    });
+
+    it('should match statement sequences inside blocks', () => {
+      const tree = createTree(`
+        function a() { setup(); return 1; }
+        function b() { return 2; }
+        function c() { setup(); }
+      `);
+      const matches = tree.match('function $NAME() { $$$BODY; return $VALUE; }');
+      expect(matches.map(m => (m.bindings.NAME as { text: string }).text)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('scope', () => {
+    it('should search within a single node', () => {
+      const tree = createTree(`
+        function a() { log(1); }
+        function b() { log(2); }
+      `);
+      const fn = tree.find('function_declaration[name="b"]');
+      expect(getNodeText(fn!.match('log($X)').map(m => m.node))).toEqual(['log(2)']);
+    });
+
+    it('should use the grammar of the searched tree', () => {
+      const tree = createTree('const x = value as string;', 'typescript');
+      expect(tree.match('$X as string')).toHaveLength(1);
+    });
+  });
+
+  describe('errors', () => {
+    it('should throw PatternError for unparsable snippets', () => {
+      const tree = createTree('foo();', 'javascript');
+      expect(() => tree.match('foo(')).toThrow(PatternError);
+    });
+
+    it('should throw PatternError for multi-statement snippets', () => {
+      const tree = createTree('foo();', 'javascript');
+      expect(() => tree.match('foo(); bar();')).toThrow(PatternError);
+    });
+  });
+});
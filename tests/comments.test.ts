@@ -0,0 +1,105 @@
+import { PatternError, PatternParser } from '../src';
+import { createTree, getNodeText } from './helpers/test-utils';
+
+describe('Comment pseudo-classes', () => {
+  const code = `
+    // License header
+
+    /** @deprecated use load() instead */
+    export function fetchAll() {}
+
+    /**
+     * @deprecated
+     */
+    const legacy = () => {};
+
+    class Store {
+      // eslint-disable-next-line no-console
+      log() {
+        console.log('saved'); // TODO use a logger
+        send(/* retries */ 3);
+      }
+    }
+
+    function current() {} // FIXME rename
+  `;
+  const tree = createTree(code, 'javascript');
+  const names = (pattern: string) => tree.findAll(pattern).map(node => node.name ?? node.text);
+
+  describe(':leading-comment()', () => {
+    it('should match comments directly above a node', () => {
+      expect(names('function:leading-comment(/@deprecated/)')).toEqual(['fetchAll', '() => {}']);
+      expect(names('method:leading-comment(/eslint-disable/)')).toEqual(['log']);
+    });
+
+    it('should not attach comments separated by a blank line', () => {
+      expect(tree.findAll(':leading-comment(/License/)')).toHaveLength(0);
+    });
+
+    it('should only share comments with the statement a node begins', () => {
+      const statements = createTree(
+        `async function run() {
+          // @deprecated
+          return foo();
+          // eslint-disable
+          if (a > b) {}
+          // retry
+          await save();
+          // checked
+          bar();
+        }`,
+        'javascript'
+      );
+      const leading = (pattern: string) => getNodeText(statements.findAll(pattern));
+
+      expect(leading(':leading-comment(/deprecated/)')).toEqual(['return foo();']);
+      expect(leading(':leading-comment(/eslint/)')).toEqual(['if (a > b) {}']);
+      expect(leading(':leading-comment(/retry/)')).toEqual(['await save();', 'await save()']);
+      expect(leading('call:leading-comment')).toEqual(['bar()']);
+    });
+
+    it('should match inline comments before a node', () => {
+      expect(getNodeText(tree.findAll('number:leading-comment(retries)'))).toEqual(['3']);
+    });
+  });
+
+  describe(':trailing-comment()', () => {
+    it('should match comments on the line a node ends on', () => {
+      expect(getNodeText(tree.findAll('call:trailing-comment(/TODO/)'))).toEqual([
+        "console.log('saved')",
+      ]);
+      expect(getNodeText(tree.findAll('statement:trailing-comment(/TODO/)'))).toEqual([
+        "console.log('saved');",
+      ]);
+    });
+
+    it('should match comments after a closing brace', () => {
+      expect(names('function:trailing-comment(/fixme/i)')).toEqual(['current']);
+    });
+
+    it('should not treat leading comments as trailing ones', () => {
+      expect(names('function:trailing-comment')).toEqual(['current']);
+    });
+  });
+
+  it('should match any comment without an argument', () => {
+    expect(names('function:leading-comment')).toEqual(['fetchAll', '() => {}', 'log']);
+  });
+
+  it('should report invalid regular expressions', () => {
+    expect(() => PatternParser.compile('function:leading-comment(/[/)')).toThrow(PatternError);
+    expect(() => tree.findAll('function:leading-comment(/[/)')).toThrow(
+      /^Invalid regular expression: \/\[\/: Unterminated character class/
+    );
+  });
+
+  it('should explain comment matches', () => {
+    const method = tree.find('method')!;
+    expect(tree.debugMatch(':leading-comment(/TODO/)', method).reason).toBe(
+      'leading comments are "// eslint-disable-next-line no-console"'
+    );
+    expect(tree.debugMatch(':trailing-comment', method).reason).toBe(
+      "method_definition 'log' at line 14 has no trailing comments"
+    );
+  });
+});
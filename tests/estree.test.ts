@@ -0,0 +1,254 @@
+import { ESTreeNode } from '../src';
+import { createTree } from './helpers/test-utils';
+
+// The ESTree nodes of `type` anywhere below `node`
+function collect(node: unknown, type: string, found: ESTreeNode[] = []): ESTreeNode[] {
+  if (Array.isArray(node)) {
+    node.forEach(child => collect(child, type, found));
+  } else if (node && typeof node === 'object' && 'type' in node) {
+    const estree = node as ESTreeNode;
+    if (estree.type === type) found.push(estree);
+    for (const [key, value] of Object.entries(estree)) {
+      if (key !== 'loc' && key !== 'range') collect(value, type, found);
+    }
+  }
+  return found;
+}
+
+describe('ESTree export', () => {
+  describe('JavaScript', () => {
+    const code = `'use strict';
+// Greets someone
+export default async function greet(name = 'you', ...rest) {
+  const message = \`Hi \${name}!\`;
+  return user?.profile.name ?? message;
+}
+const { a, b: [c, , d] } = obj;
+for (const key of keys) if (!key) break;
+class Counter extends Base { #count = 0; static create() { return new Counter(); } }
+`;
+    const tree = createTree(code, 'javascript');
+    const { ast, comments } = tree.toESTree();
+
+    it('should produce a Program with directives and ESTree statements', () => {
+      expect(ast).toMatchObject({ type: 'Program', sourceType: 'module' });
+      expect((ast.body as ESTreeNode[]).map(statement => statement.type)).toEqual([
+        'ExpressionStatement',
+        'ExportDefaultDeclaration',
+        'VariableDeclaration',
+        'ForOfStatement',
+        'ClassDeclaration',
+      ]);
+      expect(ast.body).toContainEqual(expect.objectContaining({ directive: 'use strict' }));
+    });
+
+    it('should convert functions, patterns and literals', () => {
+      const [greet] = collect(ast, 'FunctionDeclaration');
+      expect(greet).toMatchObject({
+        id: { type: 'Identifier', name: 'greet' },
+        async: true,
+        generator: false,
+        params: [
+          { type: 'AssignmentPattern', left: { name: 'name' }, right: { value: 'you' } },
+          { type: 'RestElement', argument: { name: 'rest' } },
+        ],
+      });
+
+      const [pattern] = collect(ast, 'ObjectPattern');
+      expect(pattern.properties).toMatchObject([
+        { type: 'Property', shorthand: true, key: { name: 'a' }, value: { name: 'a' } },
+        { type: 'Property', key: { name: 'b' }, value: { type: 'ArrayPattern' } },
+      ]);
+      expect(collect(pattern, 'ArrayPattern')[0].elements).toMatchObject([
+        { name: 'c' },
+        null,
+        { name: 'd' },
+      ]);
+
+      const [template] = collect(ast, 'TemplateLiteral');
+      expect(template.quasis).toMatchObject([
+        { value: { raw: 'Hi ', cooked: 'Hi ' }, tail: false },
+        { value: { raw: '!', cooked: '!' }, tail: true },
+      ]);
+    });
+
+    it('should wrap optional chains in a ChainExpression', () => {
+      const [logical] = collect(ast, 'LogicalExpression');
+      expect(logical).toMatchObject({
+        operator: '??',
+        left: {
+          type: 'ChainExpression',
+          expression: {
+            type: 'MemberExpression',
+            optional: false,
+            object: { type: 'MemberExpression', optional: true, property: { name: 'profile' } },
+          },
+        },
+      });
+    });
+
+    it('should convert classes', () => {
+      const [counter] = collect(ast, 'ClassDeclaration');
+      expect(counter).toMatchObject({ superClass: { name: 'Base' } });
+      expect((counter.body as ESTreeNode).body).toMatchObject([
+        { type: 'PropertyDefinition', key: { type: 'PrivateIdentifier', name: 'count' } },
+        { type: 'MethodDefinition', kind: 'method', static: true, key: { name: 'create' } },
+      ]);
+    });
+
+    it('should add loc and range to every node', () => {
+      const [template] = collect(ast, 'TemplateLiteral');
+      expect(code.slice(...template.range)).toBe('`Hi ${name}!`');
+      expect(template.loc).toEqual({
+        start: { line: 4, column: 18 },
+        end: { line: 4, column: 31 },
+      });
+    });
+
+    it('should list comments separately', () => {
+      expect(comments).toMatchObject([{ type: 'Line', value: ' Greets someone' }]);
+      expect(ast.comments).toBe(comments);
+    });
+  });
+
+  describe('back references', () => {
+    const tree = createTree('const total = price * (1 + rate);', 'javascript');
+    const { ast, treeNodes } = tree.toESTree();
+
+    it('should map every ESTree node to the node it came from', () => {
+      const [binary] = collect(ast, 'BinaryExpression');
+      expect(treeNodes.get(binary)?.type).toBe('binary_expression');
+      expect(treeNodes.get(ast)).toBe(tree.root);
+
+      for (const [estree, node] of treeNodes) {
+        expect(estree.range[0]).toBeGreaterThanOrEqual(node.startOffset);
+        expect(estree.range[1]).toBeLessThanOrEqual(node.endOffset);
+      }
+    });
+
+    it('should leave out parentheses', () => {
+      const [, inner] = collect(ast, 'BinaryExpression');
+      expect(inner).toMatchObject({ operator: '+', left: { value: 1 }, right: { name: 'rate' } });
+      expect(treeNodes.get(inner)?.text).toBe('1 + rate');
+    });
+
+    it('should convert a single node', () => {
+      const call = createTree('run(a, b);', 'javascript').find('call')!;
+      const { ast } = call.toESTree();
+
+      expect(ast).toMatchObject({
+        type: 'CallExpression',
+        arguments: [{ name: 'a' }, { name: 'b' }],
+      });
+      expect(ast.range).toEqual([0, 9]);
+    });
+  });
+
+  describe('TypeScript', () => {
+    const code = `interface Box<T = string> extends Base { readonly value?: T; }
+type Id = number | \`id-\${string}\`;
+abstract class Repo<T> implements Store<T> {
+  constructor(private readonly db: Db) { super(); }
+  abstract find(id: Id): Promise<T | null>;
+}
+declare global { interface Window { app: unknown } }
+const config = { debug: true } as const;
+`;
+    const tree = createTree(code, 'typescript');
+    const { ast, unmapped } = tree.toESTree();
+
+    it('should follow TS-ESTree for type syntax', () => {
+      const [box] = collect(ast, 'TSInterfaceDeclaration');
+      expect(box).toMatchObject({
+        id: { name: 'Box' },
+        extends: [{ type: 'TSInterfaceHeritage', expression: { name: 'Base' } }],
+        typeParameters: { params: [{ name: { name: 'T' }, default: { type: 'TSStringKeyword' } }] },
+        body: {
+          body: [
+            {
+              type: 'TSPropertySignature',
+              readonly: true,
+              optional: true,
+              typeAnnotation: { typeAnnotation: { type: 'TSTypeReference' } },
+            },
+          ],
+        },
+      });
+
+      const [repo] = collect(ast, 'ClassDeclaration');
+      expect(repo).toMatchObject({
+        abstract: true,
+        implements: [{ type: 'TSClassImplements', typeArguments: { params: [{}] } }],
+      });
+      expect(collect(repo, 'TSParameterProperty')).toMatchObject([
+        { accessibility: 'private', readonly: true, parameter: { name: 'db' } },
+      ]);
+      expect(collect(repo, 'TSAbstractMethodDefinition')[0]).toMatchObject({
+        key: { name: 'find' },
+        value: { type: 'TSEmptyBodyFunctionExpression', body: null },
+      });
+
+      expect(collect(ast, 'TSAsExpression')[0].typeAnnotation).toMatchObject({
+        type: 'TSTypeReference',
+        typeName: { name: 'const' },
+      });
+    });
+
+    it('should list node types without an ESTree equivalent', () => {
+      expect(unmapped.map(node => node.type)).toEqual([
+        'template_literal_type',
+        'ambient_declaration',
+      ]);
+      expect(collect(ast, 'UnmappedNode')).toMatchObject([
+        { nodeType: 'template_literal_type' },
+        { nodeType: 'ambient_declaration' },
+      ]);
+      expect(unmapped[1].text).toMatch(/^declare global/);
+    });
+
+    it('should list syntax errors as unmapped', () => {
+      const { unmapped } = createTree('const = ;', 'typescript').toESTree();
+      expect(unmapped.some(node => node.type === 'ERROR')).toBe(true);
+    });
+  });
+
+  describe('JSX', () => {
+    const code = `const view = (
+  <List.Item id="a &amp; b" {...props} disabled>
+    Hello, {name}!
+    <br />
+  </List.Item>
+);`;
+    const { ast } = createTree(code, 'tsx').toESTree();
+
+    it('should convert elements, attributes and text', () => {
+      const [item] = collect(ast, 'JSXElement');
+      expect(item.openingElement).toMatchObject({
+        name: {
+          type: 'JSXMemberExpression',
+          object: { name: 'List' },
+          property: { name: 'Item' },
+        },
+        attributes: [
+          { type: 'JSXAttribute', name: { name: 'id' }, value: { value: 'a & b' } },
+          { type: 'JSXSpreadAttribute', argument: { name: 'props' } },
+          { type: 'JSXAttribute', name: { name: 'disabled' }, value: null },
+        ],
+        selfClosing: false,
+      });
+      expect((item.children as ESTreeNode[]).map(child => child.type)).toEqual([
+        'JSXText',
+        'JSXExpressionContainer',
+        'JSXText',
+        'JSXElement',
+        'JSXText',
+      ]);
+    });
+
+    it('should not include whitespace in nested tags', () => {
+      const [, br] = collect(ast, 'JSXElement');
+      expect(code.slice(...br.range)).toBe('<br />');
+      expect(br.loc.start).toEqual({ line: 4, column: 4 });
+    });
+  });
+});
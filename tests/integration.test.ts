@@ -235,6 +235,13 @@ function processOrder(order) {
       // Both functions have similar structure
       expect(structures[0].ifs).toBe(structures[1].ifs);
       expect(structures[0].returns).toBe(structures[1].returns);
+
+      // They differ only in names and messages
+      const [processUser, processOrder] = functions;
+      expect(processUser.equals(processOrder)).toBe(false);
+      expect(
+        processUser.equals(processOrder, { ignoreIdentifiers: true, ignoreLiterals: true })
+      ).toBe(true);
     });
   });
 
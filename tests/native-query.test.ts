@@ -0,0 +1,84 @@
+import { PatternError } from '../src';
+import { createTree, getNodeText } from './helpers/test-utils';
+
+describe('native queries', () => {
+  const code = `
+const fs = require('fs');
+const path = require('path');
+const local = load('./local');
+import React from 'react';
+`;
+
+  it('should return captures grouped per match', () => {
+    const tree = createTree(code, 'javascript');
+    const matches = tree.query(
+      '(call_expression function: (identifier) @fn arguments: (arguments (string) @module))'
+    );
+
+    expect(matches).toHaveLength(3);
+    expect(matches[0].pattern).toBe(0);
+    expect(matches[0].captures.fn.text).toBe('require');
+    expect(matches[0].captures.module.text).toBe("'fs'");
+    expect(getNodeText(matches[0].allCaptures.module)).toEqual(["'fs'"]);
+  });
+
+  it('should support #eq?, #match? and #any-of? predicates', () => {
+    const tree = createTree(code, 'javascript');
+
+    const requires = tree.query(
+      '(call_expression function: (identifier) @fn (#eq? @fn "require")) @call'
+    );
+    expect(getNodeText(requires.map(m => m.captures.call))).toEqual([
+      "require('fs')",
+      "require('path')",
+    ]);
+
+    const relative = tree.query('((string) @s (#match? @s "^.\\\\./"))');
+    expect(getNodeText(relative.map(m => m.captures.s))).toEqual(["'./local'"]);
+
+    const names = tree.query('((identifier) @id (#any-of? @id "fs" "local"))');
+    expect(getNodeText(names.map(m => m.captures.id))).toEqual(['fs', 'local']);
+  });
+
+  it('should keep every node of quantified captures', () => {
+    const tree = createTree('a();\nb();\nc();', 'javascript');
+    const [match] = tree.query('(program (expression_statement)+ @statements)');
+
+    expect(getNodeText(match.allCaptures.statements)).toEqual(['a();', 'b();', 'c();']);
+    expect(match.captures.statements.text).toBe('a();');
+  });
+
+  it('should wrap captures as connected TreeNodes', () => {
+    const tree = createTree(code, 'javascript');
+    const [match] = tree.query('(import_statement source: (string) @source)');
+
+    expect(match.captures.source.type).toBe('string');
+    expect(match.captures.source.parent?.type).toBe('import_statement');
+    expect(match.captures.source.getParent('program')).toBe(tree.root);
+  });
+
+  it('should only match within the queried node', () => {
+    const tree = createTree(code, 'javascript');
+    const declaration = tree.find('lexical_declaration:has(identifier[text="local"])');
+    expect(declaration!.query('(call_expression) @call')).toHaveLength(1);
+  });
+
+  it('should throw PatternError with the offending offset for bad queries', () => {
+    const tree = createTree(code, 'javascript');
+
+    expect(() => tree.query('(call_expression function: (identifer) @fn)')).toThrow(PatternError);
+
+    try {
+      tree.query('(call_expression function: (identifer) @fn)');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PatternError);
+      expect((error as PatternError).offset).toBe(28);
+      expect((error as PatternError).message).toContain('Unknown node type');
+    }
+  });
+
+  it('should reject unknown predicates', () => {
+    const tree = createTree(code, 'javascript');
+    expect(() => tree.query('((identifier) @id (#frobnicate? @id))')).toThrow(PatternError);
+  });
+});
@@ -0,0 +1,266 @@
+import { CompiledQuery, PatternError, PatternParser } from '../src';
+import { createTree, getNodeText } from './helpers/test-utils';
+
+describe('TreeNode', () => {
+  describe('query APIs', () => {
+    const code = `
+      function a() { debugger; }
+      function b() { return 1; }
+      function c() {
+        debugger;
+      }
+      const d = () => {};
+    `;
+
+    // A compiled query that records how many nodes were tested
+    const countingQuery = (type: string) => {
+      const query: CompiledQuery & { tested: number } = {
+        ...PatternParser.compile(type),
+        tested: 0,
+      };
+      const { matches } = query;
+      query.matches = node => {
+        query.tested++;
+        return matches(node);
+      };
+      return query;
+    };
+
+    it('should iterate matches lazily in document order', () => {
+      const tree = createTree(code, 'javascript');
+      const query = countingQuery('function_declaration');
+
+      const iterator = tree.findIter(query);
+      expect(query.tested).toBe(0);
+
+      expect(iterator.next().value?.name).toBe('a');
+      const testedForFirst = query.tested;
+      expect(iterator.next().value?.name).toBe('b');
+      expect(query.tested).toBeGreaterThan(testedForFirst);
+
+      expect([...tree.findIter('function')].map(fn => fn.type)).toEqual([
+        'function_declaration',
+        'function_declaration',
+        'function_declaration',
+        'arrow_function',
+      ]);
+    });
+
+    it('should stop traversing as soon as a match is found', () => {
+      const tree = createTree(code, 'javascript');
+      const query = countingQuery('debugger_statement');
+      tree.count(query);
+      const total = query.tested;
+
+      query.tested = 0;
+      expect(tree.exists(query)).toBe(true);
+      expect(query.tested).toBeLessThan(total / 2);
+      expect(tree.exists('with_statement')).toBe(false);
+    });
+
+    it('should limit the number of matches', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('function', { limit: 2 }).map(fn => fn.name)).toEqual(['a', 'b']);
+      expect(tree.findAll('function', { limit: 0 })).toEqual([]);
+      expect(tree.findAllWithCaptures('function@fn', { limit: 1 })).toHaveLength(1);
+    });
+
+    it('should only match nodes within a line range', () => {
+      const tree = createTree(code, 'javascript');
+      const within = { startLine: 3, endLine: 6 };
+
+      expect(tree.findAll('function', { within }).map(fn => fn.name)).toEqual(['b', 'c']);
+      expect(tree.count('debugger_statement', { within })).toBe(1);
+      // `c` ends on line 6, so only its body lies within lines 4-5
+      expect(
+        getNodeText(tree.findAll('debugger_statement', { within: { startLine: 4, endLine: 5 } }))
+      ).toEqual(['debugger;']);
+      expect(tree.findAll('function', { within: { startLine: 4, endLine: 5 } })).toHaveLength(0);
+    });
+
+    it('should count matches', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.count('debugger_statement')).toBe(2);
+      expect(tree.count('function', { limit: 3 })).toBe(3);
+      expect(tree.find('function_declaration')!.count('debugger_statement')).toBe(1);
+    });
+
+    it('should throw strict pattern errors before iterating', () => {
+      const tree = createTree(code, 'javascript');
+      expect(() => tree.findIter('functon', { strict: true })).toThrow(PatternError);
+    });
+
+    it('should be strict by default', () => {
+      const tree = createTree(code, 'javascript');
+      expect(() => tree.findIter('functon')).toThrow(PatternError);
+      expect(() => tree.count('functon')).toThrow(/Did you mean: function/);
+      expect(() => tree.exists('debuger_statement')).toThrow(/Did you mean: debugger_statement/);
+
+      expect(tree.count('functon', { strict: false })).toBe(0);
+      expect(tree.exists('debuger_statement', { strict: false })).toBe(false);
+      // Older lookups stay lenient
+      expect(tree.findAll('functon')).toEqual([]);
+      expect(tree.find('functon')).toBeNull();
+    });
+  });
+
+  describe('field and named-child access', () => {
+    const code = `
+      @sealed
+      @logged
+      class Service {
+        fetch(url) {
+          return api.get(url /* path */, { retries: 2 });
+        }
+      }
+    `;
+
+    it('should return wrapped children by field', () => {
+      const tree = createTree(code, 'typescript');
+      const call = tree.find('call')!;
+      const callee = call.field('function')!;
+
+      expect(callee.text).toBe('api.get');
+      expect(callee.parent).toBe(call);
+      expect(callee.field('property')?.text).toBe('get');
+      expect(call.field('missing')).toBeNull();
+      expect(call.field('function')).toBe(callee);
+    });
+
+    it('should return repeated fields in order', () => {
+      const tree = createTree(code, 'typescript');
+      const service = tree.find('class')!;
+
+      expect(getNodeText(service.fields('decorator'))).toEqual(['@sealed', '@logged']);
+      expect(service.fields('body')).toHaveLength(1);
+      expect(service.fields('parameters')).toEqual([]);
+    });
+
+    it('should report the field of each child', () => {
+      const tree = createTree(code, 'typescript');
+      const args = tree.find('arguments')!;
+
+      expect(args.field('function')).toBeNull();
+      expect(args.children.map(child => child.fieldName)).toEqual(
+        args.children.map(() => undefined)
+      );
+      expect(tree.find('call')!.children.map(child => child.fieldName)).toEqual([
+        'function',
+        'arguments',
+      ]);
+    });
+
+    it('should list named children', () => {
+      const tree = createTree(code, 'typescript');
+      const args = tree.find('arguments')!;
+
+      expect(args.namedChildren.map(child => child.type)).toEqual([
+        'identifier',
+        'comment',
+        'object',
+      ]);
+      expect(args.namedChildCount).toBe(3);
+      expect(args.namedChildren[0]).toBe(args.children[1]);
+      expect(args.children.filter(child => !child.isNamed).map(child => child.text)).toEqual([
+        '(',
+        ',',
+        ')',
+      ]);
+    });
+
+    it('should flag extra and missing nodes', () => {
+      const tree = createTree(code, 'typescript');
+      expect(tree.find('comment')!.isExtra).toBe(true);
+      expect(tree.find('call')!.isExtra).toBe(false);
+
+      const broken = createTree('const total = (1 + 2;', 'javascript');
+      const missing = broken
+        .find('parenthesized_expression')!
+        .children.filter(node => node.isMissing);
+      expect(missing).toHaveLength(1);
+      expect(missing[0].type).toBe(')');
+      expect(missing[0].text).toBe('');
+    });
+  });
+
+  describe('sibling and ancestor navigation', () => {
+    const code = `
+      class Api {
+        async load(id) {
+          const user = await fetch(id, { cache: true });
+          return user;
+        }
+      }
+    `;
+    const tree = createTree(code, 'javascript');
+
+    it('should step to adjacent siblings', () => {
+      const args = tree.find('arguments')!;
+      const id = args.namedChildren[0];
+
+      expect(id.previousSibling?.text).toBe('(');
+      expect(id.nextSibling?.text).toBe(',');
+      expect(id.nextNamedSibling?.type).toBe('object');
+      expect(id.previousNamedSibling).toBeNull();
+      expect(args.namedChildren[1].nextSibling?.text).toBe(')');
+      expect(args.children[args.children.length - 1].nextSibling).toBeNull();
+      expect(tree.root.nextSibling).toBeNull();
+    });
+
+    it('should find the closest match with aliases and selectors', () => {
+      const call = tree.find('call')!;
+
+      expect(call.closest('call')).toBe(call);
+      expect(call.closest('function')?.name).toBe('load');
+      expect(call.closest('class > class_body')?.type).toBe('class_body');
+      expect(call.closest('const')?.type).toBe('lexical_declaration');
+      expect(call.closest('if')).toBeNull();
+      expect(call.closest()).toBe(call);
+    });
+
+    it('should accept aliases in getParent', () => {
+      const call = tree.find('call')!;
+
+      expect(call.getParent('function')?.name).toBe('load');
+      expect(call.getParent('class')?.name).toBe('Api');
+      expect(call.getParent('call')).toBeNull();
+      expect(call.getParent('method_definition')?.name).toBe('load');
+      expect(call.getParent()).toBe(call.parent);
+    });
+
+    it('should filter ancestors and descendants by pattern', () => {
+      const call = tree.find('call')!;
+      const method = tree.find('method')!;
+
+      expect(call.ancestors('function, class').map(node => node.type)).toEqual([
+        'method_definition',
+        'class_declaration',
+      ]);
+      expect(call.ancestors()).toHaveLength(call.getPath().length - 1);
+      expect(getNodeText(method.descendants('identifier'))).toEqual([
+        'id',
+        'user',
+        'fetch',
+        'id',
+        'user',
+      ]);
+      expect(method.descendants('method')).toEqual([]);
+      expect(tree.root.descendants(':has(> await_expression)').map(node => node.type)).toEqual([
+        'variable_declarator',
+      ]);
+    });
+
+    it('should be strict by default, except for getParent', () => {
+      const call = tree.find('call')!;
+
+      expect(() => call.closest('functon')).toThrow(PatternError);
+      expect(() => call.ancestors('functon')).toThrow(PatternError);
+      expect(() => tree.root.descendants('functon')).toThrow(PatternError);
+
+      expect(call.closest('functon', { strict: false })).toBeNull();
+      expect(call.ancestors('functon', { strict: false })).toEqual([]);
+      expect(tree.root.descendants('functon', { strict: false })).toEqual([]);
+      expect(call.getParent('functon')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  MatchExplanation,
+  PatternError,
+  PatternParser,
+  debugMatch,
+  explainPattern,
+  formatMatchExplanation,
+  formatSelector,
+} from '../src';
+import { createTree } from './helpers/test-utils';
+
+describe('Pattern debugging', () => {
+  const code = `
+    class Api {
+      load() { return fetch('/users'); }
+      async save() { return post('/users'); }
+    }
+  `;
+  const pattern = 'class method[async]:has(call[text*="fetch"])';
+
+  describe('explainPattern', () => {
+    it('should show the selector tree with aliases expanded', () => {
+      expect(explainPattern(pattern).split('\n')).toEqual([
+        'descendant: class method[async]:has(call[text*="fetch"])',
+        '  type class → class_declaration | class_expression | abstract_class_declaration',
+        '  all of: method[async]:has(call[text*="fetch"])',
+        '    all of: method[async]',
+        '      type method → method_definition',
+        '      attribute [async] (semantic)',
+        '    pseudo-class :has(call[text*="fetch"])',
+        '      all of: call[text*=fetch]',
+        '        type call → call_expression',
+        '        attribute [text*=fetch]',
+      ]);
+    });
+
+    it('should describe fields, captures and relative selectors', () => {
+      expect(explainPattern('call > @function identifier@callee, function:has(> return)')).toBe(
+        [
+          'any of: call > @function identifier@callee, function:has(> return)',
+          '  child through @function: call > @function identifier@callee',
+          '    type call → call_expression',
+          '    type identifier as @callee',
+          '  all of: function:has(> return)',
+          '    type function → ' +
+            'function_declaration | function_expression | generator_function_declaration | ' +
+            'generator_function | arrow_function | method_definition',
+          '    pseudo-class :has(> return)',
+          '      child: > return',
+          '        the node tested by :has()',
+          '        type return → return_statement',
+        ].join('\n')
+      );
+    });
+
+    it('should point out unknown names instead of throwing', () => {
+      const explanation = explainPattern('functon[asink]:hass(x)');
+      expect(explanation).toContain('type functon (unknown node type)');
+      expect(explanation).toContain('attribute [asink] (unknown attribute)');
+      expect(explanation).toContain('pseudo-class :hass(x) (unknown pseudo-class)');
+      expect(() => explainPattern('function[')).toThrow(PatternError);
+    });
+
+    it('should expand aliases registered on a tree', () => {
+      const tree = createTree(code, 'javascript');
+      tree.registerAlias('fetcher', ['call_expression']);
+      expect(tree.explainPattern('fetcher')).toBe('type fetcher → call_expression');
+      expect(explainPattern('fetcher')).toBe('type fetcher (unknown node type)');
+    });
+  });
+
+  describe('debugMatch', () => {
+    const tree = createTree(code, 'javascript');
+    const [load, save] = tree.findAll('method');
+    const failed = (explanation: MatchExplanation): string[] => [
+      ...(explanation.matched ? [] : [explanation.selector]),
+      ...explanation.steps.flatMap(failed),
+    ];
+
+    it('should report which part of a pattern failed', () => {
+      const explanation = tree.debugMatch(pattern, load);
+      expect(explanation.matched).toBe(false);
+      expect(failed(explanation)).toEqual([
+        pattern,
+        'method[async]:has(call[text*="fetch"])',
+        'method[async]',
+        '[async]',
+      ]);
+      expect(formatMatchExplanation(explanation)).toContain(
+        "✗ [async] — async is not set on method_definition 'load' at line 3"
+      );
+
+      expect(failed(tree.debugMatch(pattern, save))).toContain(':has(call[text*="fetch"])');
+    });
+
+    it('should follow combinators to the deciding relative', () => {
+      const explanation = tree.debugMatch('class method', load);
+      expect(explanation.matched).toBe(true);
+      expect(explanation.reason).toBe("ancestor class_declaration 'Api' at line 2 matches class");
+      expect(explanation.steps.map(step => step.selector)).toEqual(['class', 'method']);
+
+      const identifier = tree.find('identifier[text="fetch"]')!;
+      expect(tree.debugMatch('call > @arguments identifier', identifier).reason).toBe(
+        'identifier at line 3 is in field @function, not @arguments'
+      );
+      expect(tree.debugMatch('arguments > identifier', identifier).reason).toBe(
+        'parent call_expression at line 3 does not match arguments'
+      );
+      expect(tree.debugMatch('class identifier', load).reason).toBe(
+        'node type is method_definition'
+      );
+    });
+
+    it('should explain pseudo-class arguments', () => {
+      const notAsync = tree.debugMatch('method:not([async])', save);
+      expect(notAsync.matched).toBe(false);
+      expect(notAsync.steps[1].reason).toBe('[async] matches');
+      expect(notAsync.steps[1].steps[0].reason).toBe('async is "true"');
+
+      expect(tree.debugMatch(':inside(class)', load).reason).toBe(
+        "class_declaration 'Api' at line 2 matches class"
+      );
+      expect(tree.debugMatch('method:first-child', save).steps[1].reason).toBe(
+        "method_definition 'save' at line 4 is named child 2 of 2"
+      );
+
+      const guarded = createTree('if (x) return;\n// then\nrun();', 'javascript');
+      const run = guarded.find('expression_statement')!;
+      expect(guarded.debugMatch('if + expression_statement', run).matched).toBe(true);
+      expect(guarded.debugMatch('return + expression_statement', run).reason).toBe(
+        'previous sibling if_statement at line 1 does not match return'
+      );
+
+      const commented = createTree('foo(a, /* b */ c);', 'javascript');
+      const c = commented.find('identifier[text="c"]')!;
+      expect(commented.debugMatch(':nth-child(2)', c).reason).toBe(
+        'identifier at line 1 is named child 2 of 2'
+      );
+    });
+
+    it('should match the compiled pattern', () => {
+      const query = PatternParser.compile('class > class_body > method');
+      for (const node of tree.findAll('program, class, class_body, method, identifier')) {
+        expect(debugMatch(query, node).matched).toBe(query.matches(node));
+      }
+    });
+  });
+
+  describe('formatSelector', () => {
+    it('should round-trip patterns', () => {
+      const patterns = [
+        'call > member_expression@callee',
+        'if_statement @condition identifier',
+        'function[name=/^use[A-Z]/i]:not([async])',
+        'comment + statement ~ return, string[text^="a b" i]',
+        ':nth-child(2n+1)',
+      ];
+      for (const source of patterns) {
+        const { selector } = PatternParser.compile(source);
+        expect(PatternParser.compile(formatSelector(selector)).selector).toEqual(selector);
+      }
+    });
+  });
+});
@@ -1,5 +1,6 @@
 // PatternParser is tested via the helper functions
-import { createTree, testCode, expectPattern } from './helpers/test-utils';
+import { PatternError, PatternParser, Selector } from '../src';
+import { createTree, testCode, expectPattern, getNodeText } from './helpers/test-utils';
 
 describe('PatternParser', () => {
   beforeEach(() => {
@@ -21,6 +22,56 @@ describe('PatternParser', () => {
     });
   });
 
+  describe('TypeScript aliases', () => {
+    const tree = createTree(
+      `
+      type Id = string;
+      enum Color { Red }
+      namespace Shapes {}
+      declare module 'config' {}
+      declare const VERSION: string;
+      @Component({})
+      export class Card<T extends object> extends Base<T> {
+        @Input() id!: Id;
+      }
+      abstract class Shape {}
+      const label = (value as string)!;
+      const options = { dense: true } satisfies Options;
+      const View = <Props,>(props: Props) => <Card id={props.id!} />;
+    `,
+      'tsx'
+    );
+    const types = (pattern: string) => tree.findAll(pattern).map(node => node.type);
+
+    it('should match declarations', () => {
+      expect(getNodeText(tree.findAll('type'))).toEqual(['type Id = string;']);
+      expect(tree.findAll('enum').map(node => node.name)).toEqual(['Color']);
+      expect(types('namespace')).toEqual(['internal_module', 'module']);
+      expect(types('module')).toEqual(types('namespace'));
+      expect(types('declare > module, declare > lexical_declaration')).toEqual([
+        'module',
+        'lexical_declaration',
+      ]);
+      expect(tree.findAll('abstract-class').map(node => node.name)).toEqual(['Shape']);
+      expect(getNodeText(tree.findAll('decorator'))).toEqual(['@Component({})', '@Input()']);
+    });
+
+    it('should match type-level expressions', () => {
+      expect(getNodeText(tree.findAll('as'))).toEqual(['value as string']);
+      expect(types('satisfies')).toEqual(['satisfies_expression']);
+      expect(getNodeText(tree.findAll('non-null'))).toEqual(['(value as string)!', 'props.id!']);
+      expect(getNodeText(tree.findAll('generic'))).toEqual(['T extends object', 'Props']);
+      expect(tree.findAll('type-parameter')).toHaveLength(2);
+      expect(getNodeText(tree.findAll('type-annotation'))).toEqual([': string', ': Id', ': Props']);
+    });
+
+    it('should not match keywords spelled like an aliased node type', () => {
+      // `module` and `string` are also keyword tokens in TypeScript
+      expect(getNodeText(tree.findAll('module'))).not.toContain('module');
+      expect(getNodeText(tree.findAll('string'))).toEqual(["'config'"]);
+    });
+  });
+
   describe('attribute selectors', () => {
     it('should match [async] attribute', () => {
       expectPattern(testCode.functions.js, 'function[async]', 1);
@@ -51,6 +102,54 @@ describe('PatternParser', () => {
       expect(tree.findAll('identifier[text$="o"]')).toHaveLength(1);
     });
 
+    it('should match regex attribute values', () => {
+      const code = `
+        const [count, setCount] = useState(0);
+        useEffect(() => {}, []);
+        user();
+        const total = useless;
+      `;
+      const tree = createTree(code);
+
+      const hooks = tree.findAll('call_expression[function=/^use[A-Z]/]');
+      expect(getNodeText(hooks)).toEqual(['useState(0)', 'useEffect(() => {}, [])']);
+
+      // Regex flags are honoured
+      expect(tree.findAll('identifier[text=/^USESTATE$/i]')).toHaveLength(1);
+      expect(tree.findAll('identifier[text=/^USESTATE$/]')).toHaveLength(0);
+    });
+
+    it('should match case-insensitively with the i flag', () => {
+      const code = '// TODO: one\n// todo: two\n// Note: three';
+      const tree = createTree(code, 'javascript');
+
+      expect(tree.findAll('comment[text*="todo"]')).toHaveLength(1);
+      expect(tree.findAll('comment[text*="todo" i]')).toHaveLength(2);
+      expect(tree.findAll('comment[text*="todo" s]')).toHaveLength(1);
+      expect(tree.findAll('comment[text^="// NOTE" i]')).toHaveLength(1);
+    });
+
+    it('should match not-equals, including nodes without the attribute', () => {
+      const code = `
+        function main() {}
+        function helper() {}
+        const anon = function () {};
+      `;
+      const tree = createTree(code);
+
+      const notMain = tree.findAll('function[name!="main"]');
+      expect(notMain.map(n => n.name)).toEqual(['helper', undefined]);
+      expect(tree.findAll('function[name!=/^(main|helper)$/]')).toHaveLength(1);
+    });
+
+    it('should throw PatternError for an invalid regex', () => {
+      const tree = createTree('useState();', 'javascript');
+      expect(() => tree.findAll('call[text=/use(/]')).toThrow(PatternError);
+      expect(() => tree.findAll('call[text=/use(/]')).toThrow(
+        /^Invalid regular expression: \/use\(\/: Unterminated group/
+      );
+    });
+
     it('should handle multiple attributes', () => {
       const tree = createTree(testCode.jsx.component);
       const asyncArrows = tree.findAll('arrow_function[async]');
@@ -104,6 +203,69 @@ describe('PatternParser', () => {
     });
   });
 
+  describe('sibling combinators', () => {
+    const code = `
+      function check(user) {
+        if (!user) return null;
+        const name = user.name;
+        log(name);
+        await save(user);
+        notify(user);
+      }
+    `;
+
+    it('should match adjacent siblings with +', () => {
+      const tree = createTree(code);
+      const afterGuard = tree.findAll('if_statement + lexical_declaration');
+      expect(afterGuard).toHaveLength(1);
+      expect(afterGuard[0].text).toBe('const name = user.name;');
+
+      // log(name) is not directly after the if statement
+      expect(tree.findAll('if_statement + expression_statement')).toHaveLength(0);
+    });
+
+    it('should match general siblings with ~', () => {
+      const tree = createTree(code);
+      const afterGuard = tree.findAll('if_statement ~ expression_statement');
+      expect(afterGuard).toHaveLength(3);
+      expect(
+        tree.findAll('expression_statement:has(await_expression) ~ expression_statement')
+      ).toHaveLength(1);
+    });
+
+    it('should skip anonymous nodes between named siblings', () => {
+      const tree = createTree('foo(a, b, c);', 'javascript');
+      const args = tree.findAll('arguments > identifier + identifier');
+      expect(args.map(n => n.text)).toEqual(['b', 'c']);
+    });
+
+    it('should look past comments between siblings', () => {
+      const tree = createTree('if (x) return;\n// then\nrun();\n/* done */ stop();', 'javascript');
+      expect(getNodeText(tree.findAll('if_statement + expression_statement'))).toEqual(['run();']);
+      expect(getNodeText(tree.findAll('if_statement:has(+ expression_statement)'))).toEqual([
+        'if (x) return;',
+      ]);
+      expect(getNodeText(tree.findAll('comment + expression_statement'))).toEqual([
+        'run();',
+        'stop();',
+      ]);
+      expect(getNodeText(tree.findAll('expression_statement + expression_statement'))).toEqual([
+        'stop();',
+      ]);
+    });
+
+    it('should combine sibling and descendant combinators', () => {
+      const tree = createTree(code);
+      const calls = tree.findAll('if_statement ~ expression_statement call_expression');
+      expect(calls.map(n => n.text)).toEqual(['log(name)', 'save(user)', 'notify(user)']);
+    });
+
+    it('should not match nodes without preceding siblings', () => {
+      const tree = createTree(code);
+      expect(tree.findAll('statement_block ~ if_statement')).toHaveLength(0);
+    });
+  });
+
   describe('pseudo-selectors', () => {
     it('should match :has() selector', () => {
       const tree = createTree(testCode.functions.js);
@@ -118,6 +280,415 @@ describe('PatternParser', () => {
     });
   });
 
+  describe('selector lists', () => {
+    const code = `
+      function load() { return fetch(url); }
+      class Store { save() { throw new Error('readonly'); } }
+      const handler = () => {};
+    `;
+
+    it('should match nodes matching any selector in the list', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('function_declaration, class').map(n => n.name)).toEqual([
+        'load',
+        'Store',
+      ]);
+      expect(tree.findAll('return ,throw')).toHaveLength(2);
+    });
+
+    it('should return each node once in document order', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('arrow, function').map(n => n.type)).toEqual([
+        'function_declaration',
+        'method_definition',
+        'arrow_function',
+      ]);
+    });
+
+    it('should combine complex selectors', () => {
+      const tree = createTree(code, 'javascript');
+      expect(
+        getNodeText(tree.findAll('function > statement_block > return call, class new'))
+      ).toEqual(['fetch(url)', "new Error('readonly')"]);
+    });
+
+    it('should group alternatives with :is() and :where()', () => {
+      const tree = createTree(code, 'javascript');
+      expect(getNodeText(tree.findAll(':is(return, throw) > :is(call, new)'))).toEqual([
+        'fetch(url)',
+        "new Error('readonly')",
+      ]);
+      expect(tree.findAll('function:where(:has(return), :has(throw))').map(n => n.name)).toEqual([
+        'load',
+        'save',
+      ]);
+    });
+
+    it('should accept lists in :has() and :not()', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('function:has(return, throw)').map(n => n.name)).toEqual([
+        'load',
+        'save',
+      ]);
+      expect(tree.findAll('function:not(:has(return, throw))').map(n => n.type)).toEqual([
+        'arrow_function',
+      ]);
+    });
+
+    it('should keep captures of the matching alternative only', () => {
+      const tree = createTree(code, 'javascript');
+      const results = tree.findAllWithCaptures('return > call@call, throw > new@created');
+      expect(results.map(r => Object.keys(r.captures))).toEqual([['call'], ['created']]);
+    });
+
+    it('should reject empty list items', () => {
+      expect(() => PatternParser.compile('function,')).toThrow(PatternError);
+      expect(() => PatternParser.compile('function,,class')).toThrow(PatternError);
+      expect(PatternParser.compile('function, class').selector.type).toBe('list');
+    });
+  });
+
+  describe('field combinators', () => {
+    const code = `
+      process(items.filter(isValid), handler.run);
+      if (user.isAdmin && enabled) { grant(user); }
+      const total = count + offset;
+    `;
+
+    it('should match children in a field with > @field', () => {
+      const tree = createTree(code, 'javascript');
+      expect(getNodeText(tree.findAll('call_expression > @function member_expression'))).toEqual([
+        'items.filter',
+      ]);
+      expect(
+        getNodeText(tree.findAll('call_expression > @arguments arguments > member_expression'))
+      ).toEqual(['handler.run']);
+      expect(getNodeText(tree.findAll('binary_expression > @right identifier'))).toEqual([
+        'enabled',
+        'offset',
+      ]);
+    });
+
+    it('should match descendants within a field with @field', () => {
+      const tree = createTree(code, 'javascript');
+      expect(getNodeText(tree.findAll('if_statement @condition binary_expression'))).toEqual([
+        'user.isAdmin && enabled',
+      ]);
+      expect(getNodeText(tree.findAll('if_statement @condition identifier'))).toEqual([
+        'user',
+        'enabled',
+      ]);
+      // `items` sits in the callee of the inner `items.filter(...)` call
+      expect(getNodeText(tree.findAll('call_expression @function identifier'))).toEqual([
+        'process',
+        'items',
+        'grant',
+      ]);
+    });
+
+    it('should tell callee and argument positions apart', () => {
+      const tree = createTree(code, 'javascript');
+      const callees = getNodeText(tree.findAll('call > @function identifier'));
+      const args = getNodeText(tree.findAll('call > @arguments arguments > identifier'));
+      expect(callees).toEqual(['process', 'grant']);
+      expect(args).toEqual(['isValid', 'user']);
+    });
+
+    it('should not confuse fields with captures', () => {
+      const tree = createTree(code, 'javascript');
+      const [result] = tree.findAllWithCaptures('call > @function member_expression@callee');
+      expect(result.captures.callee.text).toBe('items.filter');
+    });
+
+    it('should expose the field name of a node', () => {
+      const tree = createTree('if (/* check */ ready) go(); // done', 'javascript');
+      const ifStatement = tree.find('if_statement')!;
+      expect(ifStatement.children.map(child => child.fieldName)).toEqual([
+        undefined,
+        'condition',
+        'consequence',
+      ]);
+      expect(tree.find('comment')!.fieldName).toBeUndefined();
+      expect(tree.root.fieldName).toBeUndefined();
+    });
+
+    it('should validate field names in strict mode', () => {
+      expect(() => PatternParser.compile('call > @funtion identifier')).toThrow(
+        /Unknown field 'funtion'.*Did you mean: function/
+      );
+      expect(() => PatternParser.compile('call + @function identifier')).toThrow(
+        /Field names can only follow/
+      );
+      expect(() => PatternParser.compile('call > @ identifier')).toThrow(/Expected a field name/);
+    });
+  });
+
+  describe('relative and ancestor pseudo-classes', () => {
+    const code = `
+      function outer() {
+        for (const item of items) {
+          save(item);
+          items.forEach(function (other) {
+            compare(other);
+          });
+        }
+        if (done) { return; } else { retry(); }
+        return finish();
+      }
+    `;
+
+    it('should match relative child selectors in :has()', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('statement_block:has(> return)')).toHaveLength(2);
+      expect(tree.findAll('function:has(> statement_block > return)').map(n => n.name)).toEqual([
+        'outer',
+      ]);
+      // Without a combinator, any descendant still counts
+      expect(tree.findAll('function:has(return)')).toHaveLength(1);
+    });
+
+    it('should match relative sibling selectors in :has()', () => {
+      const tree = createTree(code, 'javascript');
+      expect(getNodeText(tree.findAll('statement_block:has(+ else_clause)'))).toEqual([
+        '{ return; }',
+      ]);
+      expect(tree.findAll('loop:has(~ return)')).toHaveLength(1);
+      expect(tree.findAll('if_statement:has(~ loop)')).toHaveLength(0);
+    });
+
+    it('should anchor every selector of a relative list', () => {
+      const tree = createTree(code, 'javascript');
+      // `retry()` follows `{ return; }` in the else clause, but is not inside it
+      expect(tree.findAll('if_statement > statement_block:has(+ function, call)')).toHaveLength(0);
+      expect(tree.findAll('statement_block:has(+ else_clause, call)')).toHaveLength(5);
+    });
+
+    it('should match relative field selectors in :has()', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('call:has(> @function member_expression)')).toHaveLength(1);
+      expect(tree.findAll('loop:has(@right identifier)')).toHaveLength(1);
+    });
+
+    it('should match nodes inside an ancestor with :inside()', () => {
+      const tree = createTree(code, 'javascript');
+      expect(getNodeText(tree.findAll('call:inside(loop)'))).toEqual([
+        'save(item)',
+        `items.forEach(function (other) {
+            compare(other);
+          })`,
+        'compare(other)',
+      ]);
+      expect(getNodeText(tree.findAll('call:inside(loop):not(:inside(loop function))'))).toEqual([
+        'save(item)',
+        `items.forEach(function (other) {
+            compare(other);
+          })`,
+      ]);
+    });
+
+    it('should include the node itself in :closest()', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('function:closest(function_expression)')).toHaveLength(1);
+      expect(tree.findAll('function:inside(function_expression)')).toHaveLength(0);
+    });
+
+    it('should match the root node with :root', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll(':root').map(n => n.type)).toEqual(['program']);
+      expect(tree.findAll(':root > function')).toHaveLength(1);
+    });
+
+    it('should only allow relative selectors in :has()', () => {
+      expect(() => PatternParser.compile('call:not(> identifier)')).toThrow(PatternError);
+      expect(() => PatternParser.compile('call:inside(> loop)')).toThrow(PatternError);
+      expect(() => PatternParser.compile('call:has(>)')).toThrow(PatternError);
+    });
+  });
+
+  describe('scope-aware pseudo-classes', () => {
+    const code = `
+      import { useState, useEffect } from 'react';
+      const unusedConfig = load();
+      export const exported = 1;
+
+      function Counter({ initial, label }) {
+        const [count, setCount] = useState(initial);
+        let stale = 0;
+        stale = count;
+        useEffect(() => {
+          document.title = String(count);
+        });
+        return count;
+      }
+    `;
+
+    it('should match references to undeclared names with :unbound', () => {
+      const tree = createTree(code, 'javascript');
+      expect(getNodeText(tree.findAll('identifier:unbound'))).toEqual([
+        'load',
+        'document',
+        'String',
+      ]);
+    });
+
+    it('should match declarations that are never read with :unused', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('variable:unused').map(n => n.name)).toEqual(['unusedConfig', 'stale']);
+      expect(getNodeText(tree.findAll('identifier:unused'))).toEqual([
+        'unusedConfig',
+        'Counter',
+        'setCount',
+        'stale',
+      ]);
+      expect(getNodeText(tree.findAll('object_pattern > :unused'))).toEqual(['label']);
+      expect(tree.findAll('function:unused').map(n => n.name)).toEqual(['Counter']);
+      expect(tree.findAll('import_specifier:unused')).toHaveLength(0);
+    });
+
+    it('should match every reference to a binding with :references()', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('identifier:references(count)').map(n => n.line)).toEqual([9, 11, 13]);
+      expect(tree.findAll('call > identifier:references(useState)')).toHaveLength(1);
+      expect(tree.findAll('identifier:references(document)')).toHaveLength(0);
+    });
+
+    it('should not count uses of shadowing bindings as references', () => {
+      const tree = createTree(
+        `import { useState } from 'react';
+function f(useState) { useState(); }
+function g() { useState(); }`,
+        'javascript'
+      );
+      expect(tree.findAll('call > identifier:references(useState)').map(n => n.line)).toEqual([3]);
+    });
+
+    it('should match by declaring scope with :declared-in()', () => {
+      const tree = createTree(code, 'javascript');
+      expect(getNodeText(tree.findAll('return > identifier:declared-in(function)'))).toEqual([
+        'count',
+      ]);
+      expect(getNodeText(tree.findAll('call > identifier:declared-in(program)')).sort()).toEqual([
+        'useEffect',
+        'useState',
+      ]);
+    });
+  });
+
+  describe('positional pseudo-classes', () => {
+    const code = `
+      function first() {
+        setup();
+        run();
+        teardown();
+      }
+
+      function second(only) {}
+
+      call(a, b, c, d, e);
+    `;
+
+    it('should match :first-child and :last-child over named children', () => {
+      const tree = createTree(code);
+      expect(getNodeText(tree.findAll('statement_block > :first-child'))).toEqual(['setup();']);
+      expect(getNodeText(tree.findAll('statement_block > :last-child'))).toEqual(['teardown();']);
+      expect(getNodeText(tree.findAll('arguments > identifier:last-child'))).toEqual(['e']);
+    });
+
+    it('should match :nth-child() formulas', () => {
+      const tree = createTree(code);
+      expect(getNodeText(tree.findAll('arguments > :nth-child(2)'))).toEqual(['b']);
+      expect(getNodeText(tree.findAll('arguments > :nth-child(odd)'))).toEqual(['a', 'c', 'e']);
+      expect(getNodeText(tree.findAll('arguments > :nth-child(2n)'))).toEqual(['b', 'd']);
+      expect(getNodeText(tree.findAll('arguments > :nth-child(-n+2)'))).toEqual(['a', 'b']);
+      expect(getNodeText(tree.findAll('arguments > :nth-last-child(1)'))).toEqual(['e']);
+    });
+
+    it('should match :nth-of-type() against the raw node type', () => {
+      const tree = createTree(code);
+      const secondFunction = tree.findAll('function_declaration:nth-of-type(2)');
+      expect(secondFunction.map(n => n.name)).toEqual(['second']);
+      expect(tree.findAll('expression_statement:first-of-type')).toHaveLength(2);
+    });
+
+    it('should match :only-child and :empty', () => {
+      const tree = createTree(code);
+      expect(getNodeText(tree.findAll('formal_parameters > :only-child'))).toEqual(['only']);
+      expect(tree.findAll('statement_block:empty')).toHaveLength(1);
+    });
+
+    it('should not count comments as children', () => {
+      const tree = createTree(`
+        function first() {
+          // setup
+          init();
+          run(); // then
+        }
+        function second(/* none */) {}
+        function third() { /* empty */ }
+        foo(a, /* b */ c);
+      `);
+      expect(getNodeText(tree.findAll('statement_block > :first-child'))).toEqual(['init();']);
+      expect(getNodeText(tree.findAll('statement_block > statement:first-child'))).toEqual([
+        'init();',
+      ]);
+      expect(getNodeText(tree.findAll('statement_block > :last-child'))).toEqual(['run();']);
+      expect(getNodeText(tree.findAll('arguments > :nth-child(2)'))).toEqual(['c']);
+      expect(tree.findAll('formal_parameters > :only-child')).toHaveLength(0);
+      expect(getNodeText(tree.findAll('statement_block:empty'))).toEqual(['{}', '{ /* empty */ }']);
+    });
+
+    it('should match nothing for a malformed :nth-child() argument', () => {
+      const tree = createTree(code);
+      expect(tree.findAll('arguments > :nth-child(foo)')).toHaveLength(0);
+    });
+  });
+
+  describe('captures', () => {
+    it('should capture labelled nodes along a selector chain', () => {
+      const tree = createTree('console.log(a); api.fetch(b);');
+      const results = tree.findAllWithCaptures(
+        'call > member_expression@callee > property_identifier@method'
+      );
+
+      expect(results).toHaveLength(2);
+      expect(results[0].node.type).toBe('property_identifier');
+      expect(results[0].captures.callee.text).toBe('console.log');
+      expect(results[0].captures.method.text).toBe('log');
+      expect(results[1].captures.callee.text).toBe('api.fetch');
+    });
+
+    it('should capture the ancestor that satisfied a descendant combinator', () => {
+      const code = `
+        function outer() {
+          function inner() {
+            return 1;
+          }
+        }
+      `;
+      const tree = createTree(code);
+      const results = tree.findAllWithCaptures('function_declaration[name="outer"]@fn return');
+      expect(results).toHaveLength(1);
+      expect(results[0].captures.fn.name).toBe('outer');
+    });
+
+    it('should capture nodes inside :has()', () => {
+      const tree = createTree(testCode.functions.js);
+      const results = tree.findAllWithCaptures(
+        'function_declaration:has(await_expression@wait)@fn'
+      );
+      expect(results).toHaveLength(1);
+      expect(results[0].captures.fn.name).toBe('fetchData');
+      expect(results[0].captures.wait.text).toBe("await fetch('/api')");
+    });
+
+    it('should return empty captures for unlabelled patterns', () => {
+      const tree = createTree(testCode.functions.js);
+      const results = tree.findAllWithCaptures('function_declaration');
+      expect(results).toHaveLength(2);
+      expect(results[0].captures).toEqual({});
+    });
+  });
+
   describe('complex patterns', () => {
     it('should combine multiple selectors', () => {
       const tree = createTree(testCode.classes.ts);
@@ -154,6 +725,131 @@ describe('PatternParser', () => {
     });
   });
 
+  describe('compiled queries', () => {
+    it('should reuse a compiled query across trees', () => {
+      const query = PatternParser.compile('function[async]');
+      const first = createTree(testCode.functions.js);
+      const second = createTree(testCode.functions.ts);
+
+      expect(first.findAll(query)).toHaveLength(1);
+      expect(second.findAll(query)).toHaveLength(1);
+      expect(second.find(query)?.name).toBe('fetchData');
+    });
+
+    it('should expose the parsed selector AST', () => {
+      const query = PatternParser.compile('class > method[name="speak"]');
+      const selector: Selector = query.selector;
+
+      expect(query.pattern).toBe('class > method[name="speak"]');
+      expect(selector.type).toBe('child');
+      expect(selector.left).toEqual({ type: 'type', value: 'class' });
+      expect(selector.right?.type).toBe('combination');
+      expect(selector.right?.selectors?.[1]).toMatchObject({
+        type: 'attribute',
+        name: 'name',
+        operator: '=',
+        value: 'speak',
+      });
+    });
+
+    it('should match nodes directly through matches()', () => {
+      const tree = createTree(testCode.functions.js);
+      const query = PatternParser.compile('function_declaration');
+      const matching = tree.root.descendants().filter(node => query.matches(node));
+      expect(matching).toHaveLength(2);
+    });
+
+    it('should throw PatternError for invalid patterns', () => {
+      expect(() => PatternParser.compile('[')).toThrow(PatternError);
+      expect(() => PatternParser.compile('function >')).toThrow(PatternError);
+      expect(() => PatternParser.compile('  ')).toThrow(PatternError);
+    });
+
+    it('should return the same results for cached patterns', () => {
+      const tree = createTree(testCode.classes.js);
+      const first = tree.findAll('class method');
+      const second = tree.findAll('class method');
+      expect(second).toEqual(first);
+    });
+  });
+
+  describe('strict mode', () => {
+    const catchPatternError = (fn: () => unknown): PatternError => {
+      try {
+        fn();
+      } catch (error) {
+        expect(error).toBeInstanceOf(PatternError);
+        return error as PatternError;
+      }
+      throw new Error('Expected a PatternError');
+    };
+
+    it('should stay lenient by default for find and findAll', () => {
+      const tree = createTree('const x = 1;');
+      expect(tree.findAll('functon')).toHaveLength(0);
+      expect(tree.findAll('call >')).toHaveLength(0);
+      expect(tree.find(':unknown')).toBeNull();
+    });
+
+    it('should throw positioned syntax errors', () => {
+      const tree = createTree('const x = 1;');
+      const error = catchPatternError(() => tree.findAll('call[name="x"', { strict: true }));
+
+      expect(error.offset).toBe(13);
+      expect(error.pattern).toBe('call[name="x"');
+      expect(error.message).toContain("Expected ']' but reached the end of the pattern");
+      expect(error.message).toContain('\n  call[name="x"\n               ^');
+    });
+
+    it('should report unknown node types with suggestions', () => {
+      const error = catchPatternError(() => PatternParser.compile('class functon[async]'));
+
+      expect(error.offset).toBe(6);
+      expect(error.message).toContain("Unknown node type 'functon'");
+      expect(error.message).toContain('      ^^^^^^^');
+      expect(error.suggestions[0]).toBe('function');
+
+      const grammarType = catchPatternError(() => PatternParser.compile('call_expresion'));
+      expect(grammarType.suggestions).toContain('call_expression');
+    });
+
+    it('should suggest common mistakes', () => {
+      const error = catchPatternError(() => PatternParser.compile('async-function'));
+      expect(error.suggestions).toEqual(['function[async]', 'arrow[async]']);
+    });
+
+    it('should report unknown pseudo-classes and attributes', () => {
+      const pseudo = catchPatternError(() => PatternParser.compile('function:frist-child'));
+      expect(pseudo.offset).toBe(9);
+      expect(pseudo.message).toContain("Unknown pseudo-class ':frist-child'");
+      expect(pseudo.suggestions).toContain('first-child');
+
+      const attribute = catchPatternError(() => PatternParser.compile('call[nmae="x"]'));
+      expect(attribute.offset).toBe(5);
+      expect(attribute.suggestions).toContain('name');
+
+      // Grammar fields are valid attributes
+      expect(() => PatternParser.compile('call[function="require"]')).not.toThrow();
+    });
+
+    it('should point into nested selectors', () => {
+      const error = catchPatternError(() => PatternParser.compile('function:has(cal > retrun)'));
+      expect(error.offset).toBe(13);
+      expect(error.message).toContain("Unknown node type 'cal'");
+    });
+
+    it('should be on by default for findAllWithCaptures', () => {
+      const tree = createTree('foo();', 'javascript');
+      expect(() => tree.findAllWithCaptures('cal@c')).toThrow(PatternError);
+      expect(tree.findAllWithCaptures('cal@c', { strict: false })).toHaveLength(0);
+    });
+
+    it('should allow anonymous node types', () => {
+      const tree = createTree(testCode.functions.js);
+      expect(tree.findAll('function_declaration:has(async)', { strict: true })).toHaveLength(1);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle invalid patterns gracefully', () => {
       const tree = createTree('const x = 1;');
@@ -0,0 +1,180 @@
+import { PatternError, PatternParser, PatternRegistry, RegistryError } from '../src';
+import { createTree, getNodeText } from './helpers/test-utils';
+
+describe('PatternRegistry', () => {
+  const code = `
+    function Profile() {
+      const [user, setUser] = useState(null);
+      useEffect(() => load(setUser), []);
+      return render(user);
+    }
+
+    describe('profile', () => {
+      it('renders', () => expect(Profile()).toBeTruthy());
+      test('loads', () => {});
+    });
+  `;
+
+  afterEach(() => {
+    PatternParser.unregisterAlias('hook');
+    PatternParser.unregisterAlias('test-case');
+    PatternParser.unregisterPseudo('calls');
+  });
+
+  describe('global registration', () => {
+    it('should match aliases defined by node types', () => {
+      PatternParser.registerAlias('test-case', ['call_expression']);
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('test-case')).toHaveLength(tree.findAll('call_expression').length);
+    });
+
+    it('should match aliases defined by predicates', () => {
+      PatternParser.registerAlias(
+        'hook',
+        node => node.type === 'call_expression' && /^use[A-Z]/.test(node.text)
+      );
+      const tree = createTree(code, 'javascript');
+
+      expect(getNodeText(tree.findAll('hook > identifier'))).toEqual(['useState', 'useEffect']);
+    });
+
+    it('should pass pseudo-class arguments to the handler', () => {
+      PatternParser.registerPseudo('calls', (node, name) => node.text.includes(`${name}(`));
+      const tree = createTree(code, 'javascript');
+
+      expect(tree.findAll('function:calls(render)').map(fn => fn.name)).toEqual(['Profile']);
+      expect(tree.findAll('function:calls(missing)')).toHaveLength(0);
+    });
+
+    it('should recompile cached patterns after registration', () => {
+      const tree = createTree(code, 'javascript');
+      expect(tree.findAll('hook')).toHaveLength(0);
+
+      PatternParser.registerAlias('hook', node => node.text.startsWith('useState('));
+      expect(tree.findAll('hook')).toHaveLength(1);
+
+      PatternParser.unregisterAlias('hook');
+      expect(tree.findAll('hook')).toHaveLength(0);
+    });
+
+    it('should accept custom names in strict patterns', () => {
+      PatternParser.registerAlias('hook', ['call_expression']);
+      PatternParser.registerPseudo('calls', () => true);
+
+      expect(() => PatternParser.compile('hook:calls(x)')).not.toThrow();
+    });
+  });
+
+  describe('conflicts', () => {
+    it('should reject built-in aliases and pseudo-classes', () => {
+      expect(() => PatternParser.registerAlias('function', ['call_expression'])).toThrow(
+        RegistryError
+      );
+      expect(() => PatternParser.registerPseudo('has', () => true)).toThrow(RegistryError);
+    });
+
+    it('should reject names of grammar node types', () => {
+      expect(() => PatternParser.registerAlias('identifier', ['call_expression'])).toThrow(
+        /hide the node type/
+      );
+    });
+
+    it('should reject duplicates unless overriding', () => {
+      PatternParser.registerAlias('hook', ['call_expression']);
+      expect(() => PatternParser.registerAlias('hook', ['identifier'])).toThrow(
+        /already registered/
+      );
+
+      PatternParser.registerAlias('hook', ['identifier'], { override: true });
+      const tree = createTree('useState();', 'javascript');
+      expect(getNodeText(tree.findAll('hook'))).toEqual(['useState']);
+    });
+
+    it('should reject unknown node types and unusable names', () => {
+      expect(() => PatternParser.registerAlias('hook', ['call_expresion'])).toThrow(
+        /unknown node type 'call_expresion'/
+      );
+      expect(() => PatternParser.registerAlias('my hook', ['call_expression'])).toThrow(
+        /Invalid alias name/
+      );
+    });
+  });
+
+  describe('instance scope', () => {
+    it('should only apply to the tree it was registered on', () => {
+      const scoped = createTree(code, 'javascript');
+      const other = createTree(code, 'javascript');
+      scoped.registerAlias('hook', node => node.text.startsWith('use'));
+
+      expect(scoped.findAll('hook').length).toBeGreaterThan(0);
+      expect(scoped.functions()[0].findAll('hook').length).toBeGreaterThan(0);
+      expect(other.findAll('hook')).toHaveLength(0);
+    });
+
+    it('should detect conflicts with global registrations', () => {
+      PatternParser.registerPseudo('calls', () => true);
+      const tree = createTree(code, 'javascript');
+
+      expect(() => tree.registerPseudo('calls', () => false)).toThrow(RegistryError);
+      tree.registerPseudo('calls', () => false, { override: true });
+      expect(tree.findAll('call:calls')).toHaveLength(0);
+      expect(createTree(code, 'javascript').findAll('call:calls').length).toBeGreaterThan(0);
+    });
+
+    it('should share compiled patterns between trees without registrations', () => {
+      const compile = jest.spyOn(PatternParser.prototype, 'parse');
+      try {
+        const pattern = 'function:has(> statement_block:empty)';
+        createTree(code, 'javascript').findAll(pattern);
+        createTree(code, 'javascript').findAll(pattern);
+        expect(compile).toHaveBeenCalledTimes(1);
+
+        const scoped = createTree(code, 'javascript');
+        scoped.registerAlias('hook', ['call_expression']);
+        scoped.findAll(pattern);
+        expect(compile).toHaveBeenCalledTimes(2);
+      } finally {
+        compile.mockRestore();
+      }
+    });
+
+    it('should chain standalone registries', () => {
+      const parent = new PatternRegistry();
+      const child = new PatternRegistry(parent);
+      parent.registerAlias('test-case', ['call_expression']);
+
+      expect(child.getAlias('test-case')).toEqual(['call_expression']);
+      expect(child.getAlias('function')).toContain('arrow_function');
+      expect(new PatternRegistry().getAlias('test-case')).toBeUndefined();
+    });
+  });
+
+  describe('suggestions', () => {
+    it('should suggest registered aliases and pseudo-classes', () => {
+      PatternParser.registerAlias('test-case', ['call_expression']);
+      PatternParser.registerPseudo('calls', () => true);
+
+      const suggestionsFor = (pattern: string) => {
+        try {
+          PatternParser.compile(pattern);
+        } catch (error) {
+          return (error as PatternError).suggestions;
+        }
+        return [];
+      };
+
+      expect(suggestionsFor('test-cse')).toContain('test-case');
+      expect(suggestionsFor('call:cals')).toContain('calls');
+    });
+
+    it('should suggest instance-scoped aliases only within the instance', () => {
+      const tree = createTree(code, 'javascript');
+      tree.registerAlias('hook', ['call_expression']);
+
+      expect(() => tree.findAll('hok', { strict: true })).toThrow(/Did you mean: hook/);
+      expect(() => createTree(code, 'javascript').findAll('hok', { strict: true })).not.toThrow(
+        /Did you mean: hook/
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { SourcePositions } from '../src';
+import { createTree } from './helpers/test-utils';
+
+describe('Source positions', () => {
+  // `😀` is 2 UTF-16 code units, 1 code point and 4 UTF-8 bytes; `中` is 1, 1 and 3
+  const code = "const greeting = '😀 中文';\nconst name = 'x'; greet(name);\n";
+
+  describe('SourcePositions', () => {
+    const positions = new SourcePositions(code);
+
+    it('should report every unit for an offset', () => {
+      const offset = code.indexOf('中');
+      expect(positions.positionAt(offset)).toEqual({
+        offset,
+        byteOffset: Buffer.byteLength(code.slice(0, offset)),
+        line: 1,
+        column: offset + 1,
+        codePointColumn: offset,
+      });
+
+      const greet = code.indexOf('greet(');
+      expect(positions.positionAt(greet)).toMatchObject({
+        line: 2,
+        column: 19,
+        codePointColumn: 19,
+      });
+      expect(positions.positionAt(code.length).line).toBe(3);
+    });
+
+    it('should convert between UTF-16 and UTF-8 offsets', () => {
+      for (const text of ['😀', '中', 'greet', '\n']) {
+        const offset = code.indexOf(text);
+        const bytes = Buffer.byteLength(code.slice(0, offset));
+        expect(positions.convertOffset(offset)).toBe(bytes);
+        expect(positions.convertOffset(bytes, 'utf8')).toBe(offset);
+      }
+      expect(positions.convertOffset(code.length)).toBe(Buffer.byteLength(code));
+    });
+
+    it('should find offsets from code unit and code point columns', () => {
+      const offset = code.indexOf('中');
+      expect(positions.offsetAt(1, offset + 1)).toBe(offset);
+      expect(positions.offsetAt(1, offset, 'codePoint')).toBe(offset);
+      expect(positions.offsetAt(2, 19, 'codePoint')).toBe(code.indexOf('greet('));
+      expect(positions.offsetAt(1, 1000)).toBe(code.indexOf('\n'));
+    });
+
+    it('should reject positions inside a character', () => {
+      const emoji = code.indexOf('😀');
+      expect(() => positions.positionAt(emoji + 1)).toThrow(RangeError);
+      expect(() => positions.convertOffset(positions.convertOffset(emoji) + 1, 'utf8')).toThrow(
+        /inside a multi-byte character/
+      );
+      expect(() => positions.positionAt(code.length + 1)).toThrow(RangeError);
+      expect(() => positions.offsetAt(4, 1)).toThrow(RangeError);
+    });
+  });
+
+  describe('TreeNode positions', () => {
+    const tree = createTree(code, 'javascript');
+
+    it('should extract text after astral-plane characters', () => {
+      const call = tree.find('call')!;
+      expect(call.text).toBe('greet(name)');
+      expect(tree.find('string')!.text).toBe("'😀 中文'");
+      expect(tree.findAll('string_fragment').map(node => node.text)).toEqual(['😀 中文', 'x']);
+    });
+
+    it('should expose offsets, byte offsets and both kinds of column', () => {
+      const string = tree.find('string')!;
+      const end = code.indexOf(';');
+
+      expect(string.startOffset).toBe(code.indexOf("'"));
+      expect(string.endOffset).toBe(end);
+      expect(string.startByte).toBe(string.startOffset);
+      expect(string.endByte).toBe(Buffer.byteLength(code.slice(0, end)));
+      expect(string.range.end).toEqual({
+        offset: end,
+        byteOffset: string.endByte,
+        line: 1,
+        column: end + 1,
+        codePointColumn: end,
+      });
+
+      const semicolon = tree.root.children[0].children[2];
+      expect(semicolon.column).toBe(end + 1);
+      expect(semicolon.codePointColumn).toBe(end);
+    });
+
+    it('should find nodes by code point column', () => {
+      const column = code.indexOf('中') + 1;
+      expect(tree.nodeAt(1, column)?.type).toBe('string_fragment');
+      expect(tree.nodeAt(1, column - 1, 'codePoint')?.type).toBe('string_fragment');
+      expect(tree.nodeAt(1, 1, 'codePoint')?.text).toBe('const');
+      expect(tree.nodeAt(5, 1, 'codePoint')).toBeNull();
+    });
+  });
+
+  describe('transforms', () => {
+    const source =
+      "const 名前 = '🎉'; log(名前);\nconst 🙂 = 1;\nconsole.log('完了 ✅');\nrun();\n";
+
+    it('should edit code after non-ASCII text', () => {
+      const tree = createTree("const title = '¡Hola, 世界! 👋🏽'; setTitle(title);", 'javascript');
+      expect(tree.transform().rename('title', 'heading').toString()).toBe(
+        "const heading = '¡Hola, 世界! 👋🏽'; setTitle(heading);"
+      );
+    });
+
+    it('should remove and insert lines around localized strings', () => {
+      const tree = createTree(source, 'javascript');
+      expect(
+        tree
+          .transform()
+          .remove('statement[text*="console.log"]')
+          .insertBefore('statement[text="run();"]', 'init();')
+          .toString()
+      ).toBe("const 名前 = '🎉'; log(名前);\nconst 🙂 = 1;\ninit();\nrun();\n");
+    });
+
+    it('should report edits in UTF-8 bytes on request', () => {
+      const tree = createTree(source, 'javascript');
+      const transform = tree.transform().renameIdentifier('log', 'print');
+      const [edit] = transform.getEdits();
+      const [byteEdit] = transform.getEdits('utf8');
+
+      expect(source.slice(edit.start, edit.end)).toBe('log');
+      expect(Buffer.from(source).subarray(byteEdit.start, byteEdit.end).toString()).toBe('log');
+      expect(byteEdit).toEqual({
+        start: Buffer.byteLength(source.slice(0, edit.start)),
+        end: Buffer.byteLength(source.slice(0, edit.end)),
+        text: 'print',
+      });
+    });
+  });
+});
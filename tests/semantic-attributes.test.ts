@@ -0,0 +1,287 @@
+import { PatternError, PatternParser } from '../src';
+import { SEMANTIC_ATTRIBUTES } from '../src/semantic-attributes';
+import { createTree, getNodeText } from './helpers/test-utils';
+
+describe('Semantic attributes', () => {
+  const names = (nodes: { name?: string }[]) => nodes.map(node => node.name);
+
+  describe('function flags', () => {
+    it('should only treat functions with the async keyword as async', () => {
+      const tree = createTree(
+        `
+        function sync() {
+          log('async');
+          return items.map(async item => item);
+        }
+        async function load() {}
+        const fetcher = { async get() {} };
+      `,
+        'javascript'
+      );
+
+      expect(names(tree.findAll('function_declaration[async]'))).toEqual(['load']);
+      expect(tree.findAll('function[async]').map(fn => fn.type)).toEqual([
+        'arrow_function',
+        'function_declaration',
+        'method_definition',
+      ]);
+
+      // Function details agree with the selector
+      expect(tree.getFunctionDetails().map(fn => [fn.name, fn.async])).toEqual([
+        ['sync', false],
+        [undefined, true],
+        ['load', true],
+        ['get', true],
+      ]);
+      expect(tree.find('function_declaration')!.isAsync()).toBe(false);
+    });
+
+    it('should match generators', () => {
+      const tree = createTree(
+        `
+        function* ids() { yield* other(); }
+        const gen = async function* () {};
+        class Store { *entries() {} multiply() { return a * b; } }
+      `,
+        'javascript'
+      );
+
+      expect(tree.findAll('function[generator]').map(fn => fn.type)).toEqual([
+        'generator_function_declaration',
+        'generator_function',
+        'method_definition',
+      ]);
+      expect(tree.findAll('function[generator][async]')).toHaveLength(1);
+    });
+  });
+
+  describe('class members', () => {
+    const tree = createTree(
+      `
+      export abstract class Repository {
+        private readonly cache?: Map<string, string>;
+        static instances = 0;
+        protected abstract load(): void;
+        constructor(public readonly url: string, retries?: number) {}
+        get size() { return 0; }
+        set size(value: number) {}
+        static create() {}
+        #secret() {}
+      }
+      interface Options { readonly root?: string; verbose: boolean; }
+    `,
+      'typescript'
+    );
+
+    it('should match static, abstract and readonly members', () => {
+      expect(tree.findAll('[static]').map(node => node.type)).toEqual([
+        'public_field_definition',
+        'method_definition',
+      ]);
+      expect(tree.findAll('[abstract]').map(node => node.type)).toEqual([
+        'abstract_class_declaration',
+        'abstract_method_signature',
+      ]);
+      expect(getNodeText(tree.findAll('required_parameter[readonly]'))).toEqual([
+        'public readonly url: string',
+      ]);
+      expect(names(tree.findAll('property_signature[readonly]'))).toEqual(['root']);
+    });
+
+    it('should match optional parameters and members', () => {
+      expect(getNodeText(tree.findAll('[optional] > identifier'))).toEqual(['retries']);
+      expect(names(tree.findAll('public_field_definition[optional]'))).toEqual(['cache']);
+      expect(names(tree.findAll('property_signature:not([optional])'))).toEqual(['verbose']);
+    });
+
+    it('should compare visibility, defaulting to public', () => {
+      expect(names(tree.findAll('[visibility="private"]'))).toEqual(['cache', '#secret']);
+      expect(names(tree.findAll('[visibility="protected"]'))).toEqual(['load']);
+      expect(names(tree.findAll('method_definition[visibility="public"]'))).toEqual([
+        'constructor',
+        'size',
+        'size',
+        'create',
+      ]);
+    });
+
+    it('should compare method kinds', () => {
+      expect(getNodeText(tree.findAll('method[kind="get"]'))).toEqual(['get size() { return 0; }']);
+      expect(tree.findAll('method[kind="set"]')).toHaveLength(1);
+      expect(tree.findAll('method[kind="constructor"]')).toHaveLength(1);
+      expect(names(tree.findAll('method[kind="method"]'))).toEqual(['create', '#secret']);
+    });
+  });
+
+  describe('exports', () => {
+    const tree = createTree(
+      `
+      export default function main() {}
+      export const a = 1, b = 2;
+      export class Service {}
+      const hidden = 3;
+      function helper() {}
+      export { helper };
+    `,
+      'javascript'
+    );
+
+    it('should match declarations in export statements', () => {
+      expect(names(tree.findAll('function[exported]'))).toEqual(['main']);
+      expect(names(tree.findAll('class[exported]'))).toEqual(['Service']);
+      expect(names(tree.findAll('variable[exported]'))).toEqual(['a', 'b']);
+      expect(names(tree.findAll('variable:not([exported])'))).toEqual(['hidden']);
+    });
+
+    it('should distinguish default exports', () => {
+      expect(names(tree.findAll('[default-export]'))).toEqual(['main']);
+    });
+  });
+
+  describe('TypeScript types', () => {
+    const tree = createTree(
+      `
+      interface Shape extends Serializable, Comparable<Shape> {}
+      class Circle<T extends Point> extends Base<T> implements Shape, Drawable {
+        radius: number = 1;
+        draw(context: Canvas, scale?: number) {}
+      }
+      class Plain {}
+      const name: string = 'circle';
+      const size = measure() as number;
+      function identity<T>(value: T): T { return value; }
+    `,
+      'typescript'
+    );
+
+    it('should compare superclasses and extended interfaces', () => {
+      expect(names(tree.findAll('class[extends="Base"]'))).toEqual(['Circle']);
+      expect(names(tree.findAll('interface[extends*="Comparable"]'))).toEqual(['Shape']);
+      expect(getNodeText(tree.findAll('type-parameter[extends="Point"]'))).toEqual([
+        'T extends Point',
+      ]);
+      expect(names(tree.findAll('class:not([extends])'))).toEqual(['Plain']);
+    });
+
+    it('should compare implemented interfaces', () => {
+      expect(names(tree.findAll('class[implements*="Drawable"]'))).toEqual(['Circle']);
+      expect(
+        tree.findAll('class[implements]').map(node => SEMANTIC_ATTRIBUTES.get('implements')!(node))
+      ).toEqual(['Shape, Drawable']);
+    });
+
+    it('should compare annotated types', () => {
+      expect(names(tree.findAll('[type="number"]'))).toEqual(['radius', undefined]);
+      expect(getNodeText(tree.findAll('required_parameter[type="Canvas"]'))).toEqual([
+        'context: Canvas',
+      ]);
+      expect(names(tree.findAll('variable[type="string"]'))).toEqual(['name']);
+      expect(getNodeText(tree.findAll('as[type="number"]'))).toEqual(['measure() as number']);
+    });
+
+    it('should match generic declarations', () => {
+      expect(names(tree.findAll('[generic]'))).toEqual(['Circle', 'identity']);
+    });
+
+    it('should read the superclass of JavaScript classes', () => {
+      const js = createTree('class Button extends mixin(Base) {}', 'javascript');
+      expect(names(js.findAll('class[extends="mixin(Base)"]'))).toEqual(['Button']);
+    });
+  });
+
+  describe('normalized code', () => {
+    const tree = createTree(
+      `
+      async function load(url) {
+        track( 'load', /* user */ id, );
+        track("load", id);
+        track('save', id);
+        const response = await fetch(url, {
+          method: 'POST',
+        });
+        return refetch(url) + await fetch( url );
+      }
+    `,
+      'javascript'
+    );
+
+    it('should ignore whitespace, comments, trailing commas and quote style', () => {
+      expect(getNodeText(tree.findAll('call[code="track(\'load\', id)"]'))).toEqual([
+        "track( 'load', /* user */ id, )",
+        'track("load", id)',
+      ]);
+      expect(tree.findAll('call[code="fetch(url, { method: \\"POST\\" })"]')).toHaveLength(1);
+      expect(tree.findAll('call[code!="track(\'load\', id)"]')).toHaveLength(4);
+    });
+
+    it('should match partial code on token boundaries', () => {
+      expect(tree.findAll('await_expression[code*="await fetch("]')).toHaveLength(2);
+      expect(getNodeText(tree.findAll('call[code^="fetch("]'))).toEqual([
+        "fetch(url, {\n          method: 'POST',\n        })",
+        'fetch( url )',
+      ]);
+      expect(getNodeText(tree.findAll('call[code$="(url)"]'))).toEqual([
+        'refetch(url)',
+        'fetch( url )',
+      ]);
+      expect(tree.findAll('call[code$="url)"]')).toHaveLength(2);
+    });
+
+    it('should expose the normalized code to regexes', () => {
+      expect(getNodeText(tree.findAll('call[code=/^track \\( "save"/]'))).toEqual([
+        "track('save', id)",
+      ]);
+    });
+
+    it('should tokenize values with the grammar of the tree', () => {
+      const ts = createTree('const total = (price as number)!  *  count;', 'typescript');
+      expect(ts.findAll('binary_expression[code="(price as number)! * count"]')).toHaveLength(1);
+    });
+  });
+
+  describe('numeric comparisons', () => {
+    const tree = createTree(
+      `
+      function few(a, b) {}
+      function many(a, b, c, d) {
+        if (a) {
+          for (const x of b) {
+            if (x) {
+              work();
+            } else if (c) {
+              rest();
+            }
+          }
+        }
+      }
+      const single = value => value;
+    `,
+      'javascript'
+    );
+
+    it('should compare parameter counts', () => {
+      expect(names(tree.findAll('function[params>3]'))).toEqual(['many']);
+      expect(names(tree.findAll('function[params<=2]'))).toEqual(['few', undefined]);
+      expect(tree.findAll('arrow[params=1]')).toHaveLength(1);
+    });
+
+    it('should compare line counts', () => {
+      expect(names(tree.findAll('function_declaration[lines>=5]'))).toEqual(['many']);
+      expect(names(tree.findAll('function_declaration[lines<2]'))).toEqual(['few']);
+    });
+
+    it('should compare control flow nesting depth', () => {
+      expect(
+        getNodeText(tree.findAll('if_statement[depth>=3] > parenthesized_expression'))
+      ).toEqual(['(x)', '(c)']);
+      expect(tree.findAll('[depth>3]')).toHaveLength(0);
+    });
+
+    it('should require numbers after comparison operators', () => {
+      expect(() => PatternParser.compile('function[params>many]')).toThrow(PatternError);
+      expect(() => PatternParser.compile('function[params>many]')).toThrow(
+        "Expected a number after '>'"
+      );
+    });
+  });
+});
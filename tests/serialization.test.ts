@@ -0,0 +1,130 @@
+import { ParseError, SerializedTree, TreeHugger, TreeHuggerError } from '../src';
+import { createTree, getNodeText } from './helpers/test-utils';
+
+describe('Serialization', () => {
+  const code = `
+    import { save } from './api';
+
+    // Loads a user by id
+    export async function loadUser(id: string): Promise<User> {
+      const user = await fetch(\`/users/\${id}\`);
+      return user ?? save({ id, name: '名前 😀' });
+    }
+
+    class Store {
+      private cache = new Map();
+      get(key) { return this.cache.get(key); }
+    }
+  `;
+  const tree = createTree(code, 'typescript');
+  const restore = (json: SerializedTree | string = tree.toJSON()) => TreeHugger.fromJSON(json);
+
+  describe('toJSON', () => {
+    it('should produce a compact versioned format', () => {
+      const json = tree.toJSON();
+
+      expect(json).toMatchObject({ format: 'tree-hugger', version: 1, language: 'typescript' });
+      expect(json.source).toBe(code);
+      expect(new Set(json.types).size).toBe(json.types.length);
+      expect(json.fields).toContain('name');
+
+      const [type, flags, start, end, field, children] = json.root;
+      expect(json.types[type]).toBe('program');
+      expect(flags).toBe(1);
+      expect(code.slice(start, end)).toBe(code.trim() + '\n  ');
+      expect(field).toBe(-1);
+      expect(children).toHaveLength(4);
+    });
+
+    it('should leave out the source on request', () => {
+      expect(tree.toJSON({ text: false })).not.toHaveProperty('source');
+    });
+
+    it('should be used by JSON.stringify', () => {
+      expect(JSON.parse(JSON.stringify(tree))).toEqual(tree.toJSON());
+    });
+  });
+
+  describe('fromJSON', () => {
+    it('should answer queries like the parsed tree', () => {
+      const restored = restore(JSON.stringify(tree));
+      const patterns = [
+        'function[async]',
+        'call > member_expression',
+        'class method',
+        'function:has(await)',
+        ':leading-comment(/user/)',
+        'string[text*="😀"]',
+        'identifier[name="id"], [name="loadUser"]',
+        '[code="this.cache.get(key)"]',
+        'formal_parameters > @pattern identifier',
+      ];
+
+      for (const pattern of patterns) {
+        const expected = tree.findAll(pattern);
+        const actual = restored.findAll(pattern);
+        expect(getNodeText(actual)).toEqual(getNodeText(expected));
+        expect(actual.map(node => [node.line, node.column, node.fieldName])).toEqual(
+          expected.map(node => [node.line, node.column, node.fieldName])
+        );
+      }
+    });
+
+    it('should support navigation and analysis', () => {
+      const restored = restore();
+      const call = restored.find('call[text^="fetch"]')!;
+
+      expect(call.getParent('function')?.name).toBe('loadUser');
+      expect(call.field('arguments')?.namedChildren[0].type).toBe('template_string');
+      expect(call.closest('statement, const')?.nextNamedSibling?.type).toBe('return_statement');
+      expect(restored.nodeAt(12, 30)?.text).toBe(tree.nodeAt(12, 30)?.text);
+      expect(restored.getFunctionDetails()).toEqual(tree.getFunctionDetails());
+      expect(restored.getClassDetails()).toEqual(tree.getClassDetails());
+      expect(restored.match('this.cache.get($KEY)')).toHaveLength(1);
+      expect(restored.root.range).toEqual(tree.root.range);
+      expect(restored.root.hasError).toBe(false);
+    });
+
+    it('should transform the original source', () => {
+      expect(restore().transform().rename('user', 'account').toString()).toBe(
+        tree.transform().rename('user', 'account').toString()
+      );
+    });
+
+    it('should serialize again unchanged', () => {
+      expect(restore().toJSON()).toEqual(tree.toJSON());
+    });
+
+    it('should keep syntax errors', () => {
+      const broken = createTree('function (a { return a', 'javascript');
+      const restored = restore(broken.toJSON());
+
+      expect(restored.root.hasError).toBe(true);
+      expect(restored.findAll('ERROR')).toHaveLength(broken.findAll('ERROR').length);
+      expect(restored.root.descendants().filter(node => node.isMissing)).toHaveLength(
+        broken.root.descendants().filter(node => node.isMissing).length
+      );
+    });
+
+    it('should accept the source separately', () => {
+      const restored = TreeHugger.fromJSON(tree.toJSON({ text: false }), { source: code });
+      expect(restored.find('class')?.name).toBe('Store');
+      expect(() => restore(tree.toJSON({ text: false }))).toThrow(ParseError);
+      expect(() => TreeHugger.fromJSON(tree.toJSON({ text: false }), { source: '' })).toThrow(
+        /covers/
+      );
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => restore('{"format": "other"}')).toThrow(/Unsupported serialized tree/);
+      expect(() => restore('not json')).toThrow(ParseError);
+      expect(() => restore({ ...tree.toJSON(), version: 2 } as unknown as SerializedTree)).toThrow(
+        ParseError
+      );
+    });
+
+    it('should not run native queries', () => {
+      expect(() => restore().query('(identifier) @id')).toThrow(TreeHuggerError);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { StructuralOptions, TreeHugger } from '../src';
+import { createTree } from './helpers/test-utils';
+
+describe('Structural equality', () => {
+  const first = createTree(
+    `function total(items) {
+  // Sum the prices
+  return items.reduce((sum, item) => sum + item.price, 0);
+}`,
+    'javascript'
+  ).find('function')!;
+  const parse = (code: string, language = 'javascript') =>
+    createTree(code, language).find('function')!;
+
+  it('should compare structure and text exactly by default', () => {
+    const same = parse(first.text);
+    expect(first.equals(same)).toBe(true);
+    expect(first.structuralHash()).toBe(same.structuralHash());
+
+    const reformatted = parse(first.text.replace('sum + item', 'sum+item'));
+    expect(first.equals(reformatted)).toBe(false);
+    expect(first.structuralHash()).not.toBe(reformatted.structuralHash());
+  });
+
+  it('should ignore whitespace', () => {
+    const compact = parse(
+      'function total(items){\n  // Sum the prices\n  return items.reduce((sum,item)=>sum+item.price,0)\n}'
+    );
+    expect(first.equals(compact, { ignoreWhitespace: true })).toBe(false);
+
+    const reindented = parse(
+      'function total( items ) {\n    // Sum the prices\n    return items.reduce(\n      (sum, item) => sum + item.price,\n      0\n    );\n}'
+    );
+    expect(first.equals(reindented)).toBe(false);
+    expect(first.equals(reindented, { ignoreWhitespace: true })).toBe(true);
+  });
+
+  it('should ignore comments', () => {
+    const uncommented = parse(first.text.replace('// Sum the prices', '/* totals */'));
+    expect(first.equals(uncommented)).toBe(false);
+    expect(first.equals(uncommented, { ignoreComments: true })).toBe(true);
+
+    const withoutComment = parse(
+      'function total(items) {\n  return items.reduce((sum, item) => sum + item.price, 0);\n}'
+    );
+    expect(first.equals(withoutComment, { ignoreComments: true })).toBe(false);
+    expect(first.equals(withoutComment, { ignoreComments: true, ignoreWhitespace: true })).toBe(
+      true
+    );
+  });
+
+  it('should ignore identifiers and literals', () => {
+    const renamed = parse(
+      'function sum(rows) {\n  // Sum the prices\n  return rows.reduce((acc, row) => acc + row.cost, 1);\n}'
+    );
+    expect(first.equals(renamed, { ignoreIdentifiers: true })).toBe(false);
+    expect(first.equals(renamed, { ignoreIdentifiers: true, ignoreLiterals: true })).toBe(true);
+
+    // Literals keep their kind and identifiers are not literals
+    const quoted = parse(first.text.replace(', 0)', ", '0')"));
+    expect(first.equals(quoted, { ignoreLiterals: true })).toBe(false);
+    const template = (value: string) => parse(`function f() { return \`a\${b}${value}\`; }`);
+    expect(template('c').equals(template('d'), { ignoreLiterals: true })).toBe(true);
+    expect(template('c').equals(template('d'))).toBe(false);
+  });
+
+  it('should not treat different node types as equal', () => {
+    const arrow = createTree('const total = items => items;', 'javascript').find('arrow_function')!;
+    expect(first.equals(arrow, { ignoreIdentifiers: true, ignoreWhitespace: true })).toBe(false);
+  });
+
+  it('should compare nodes of rehydrated trees', () => {
+    const restored = TreeHugger.fromJSON(createTree(first.text, 'javascript').toJSON());
+    expect(restored.find('function')!.equals(first)).toBe(true);
+  });
+
+  it('should produce stable hashes for grouping duplicates', () => {
+    const options: StructuralOptions = {
+      ignoreWhitespace: true,
+      ignoreComments: true,
+      ignoreIdentifiers: true,
+      ignoreLiterals: true,
+    };
+    const functions = createTree(
+      `function a(x) { return x + 1; }
+       function b(y) {
+         return y + 2; // same shape
+       }
+       function c(z) { return z * 1; }`,
+      'javascript'
+    ).functions();
+    const hashes = functions.map(fn => fn.structuralHash(options));
+
+    expect(hashes[0]).toBe(hashes[1]);
+    expect(hashes[0]).not.toBe(hashes[2]);
+    expect(hashes[0]).toMatch(/^[0-9a-f]{40}$/);
+    // The same on every run and machine
+    expect(parse('function f() {}').structuralHash()).toBe(
+      'c068ec0b3a4fb729fb9804d0cf5dedb49f174733'
+    );
+  });
+});
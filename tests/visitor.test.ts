@@ -223,6 +223,52 @@ describe('Visitor Pattern', () => {
         // Note: This would need implementation in findBinding
       }
     });
+
+    it('should resolve references to their declarations', () => {
+      const code = `
+        import { readFile as read } from 'fs';
+        const { a, b: [c] } = load();
+        function run(path, { verbose = debug }) {
+          return read(path) + a + c + verbose;
+        }
+      `;
+
+      const tree = createTree(code, 'javascript');
+      const analyzer = new ScopeAnalyzer();
+      analyzer.analyze(tree.root);
+
+      const body = tree.find('return_statement')!;
+      const resolve = (name: string) => analyzer.resolve(body.find(`identifier[text="${name}"]`)!);
+
+      expect(resolve('read')?.type).toBe('import_specifier');
+      // Destructured names each get their own binding
+      expect(resolve('a')?.type).toBe('shorthand_property_identifier_pattern');
+      expect(resolve('c')?.parent?.type).toBe('array_pattern');
+      expect(resolve('path')?.text).toBe('path');
+      expect(resolve('verbose')?.text).toBe('verbose');
+
+      // Globals resolve to null, non-references to undefined
+      expect(analyzer.resolve(tree.find('identifier[text="debug"]')!)).toBeNull();
+      expect(analyzer.resolve(tree.find('identifier[text="readFile"]')!)).toBeUndefined();
+    });
+
+    it('should track reads of each binding', () => {
+      const code = `
+        let count = 0;
+        count = 1;
+        function increment() { return count + 1; }
+        increment();
+      `;
+
+      const tree = createTree(code, 'javascript');
+      const analyzer = new ScopeAnalyzer();
+      analyzer.analyze(tree.root);
+
+      const declarator = tree.find('variable_declarator')!;
+      expect(analyzer.getReads(declarator).map(n => n.line)).toEqual([4]);
+      expect(analyzer.getReads(tree.find('function_declaration')!)).toHaveLength(1);
+      expect(analyzer.getDeclaringScope(declarator)?.node.type).toBe('program');
+    });
   });
 
   describe('path operations', () => {